@@ -3,18 +3,19 @@ import { MainMenu } from './components/lobby/MainMenu';
 import { GameBoard } from './components/game/GameBoard';
 import { OnlineLobby } from './components/lobby/OnlineLobby';
 import { OnlineGameBoard } from './components/game/OnlineGameBoard';
-import { useGameStore } from './stores/gameStore';
-import type { GameConfig, GameState } from './types/game.types';
-import type { AIDifficulty } from './ai/AIPlayer';
+import { ReplayViewer } from './components/game/ReplayViewer';
+import { useGameStore, type SavedGame } from './stores/gameStore';
+import type { GameConfig, GameState, GameLog, AIDifficulty } from 'spicy-uno-shared';
 
-type GameScreen = 'menu' | 'game' | 'online-lobby' | 'online-game';
+type GameScreen = 'menu' | 'game' | 'online-lobby' | 'online-game' | 'replay';
 
 function App() {
   const [screen, setScreen] = useState<GameScreen>('menu');
   const [aiDifficulty, setAiDifficulty] = useState<AIDifficulty>('medium');
   const [onlineGameState, setOnlineGameState] = useState<GameState | null>(null);
   const [onlinePlayerId, setOnlinePlayerId] = useState<string | null>(null);
-  const { startGame, gameState } = useGameStore();
+  const [replayLog, setReplayLog] = useState<GameLog | null>(null);
+  const { startGame, resumeGame, gameState } = useGameStore();
 
   const handleStartGame = (config: GameConfig) => {
     if (config.aiDifficulty) {
@@ -24,6 +25,14 @@ function App() {
     setScreen('game');
   };
 
+  const handleResumeGame = (save: SavedGame) => {
+    if (save.config.aiDifficulty) {
+      setAiDifficulty(save.config.aiDifficulty);
+    }
+    resumeGame(save);
+    setScreen('game');
+  };
+
   const handleOnlinePlay = () => {
     setScreen('online-lobby');
   };
@@ -34,19 +43,34 @@ function App() {
     setScreen('online-game');
   };
 
+  const handleWatchReplay = (log: GameLog) => {
+    setReplayLog(log);
+    setScreen('replay');
+  };
+
   const handleExitGame = () => {
     setScreen('menu');
     setOnlineGameState(null);
     setOnlinePlayerId(null);
+    setReplayLog(null);
   };
 
   return (
     <div className="h-screen w-screen overflow-hidden">
       {screen === 'menu' && (
-        <MainMenu onStartGame={handleStartGame} onOnlinePlay={handleOnlinePlay} />
+        <MainMenu
+          onStartGame={handleStartGame}
+          onOnlinePlay={handleOnlinePlay}
+          onLoadReplay={handleWatchReplay}
+          onResumeGame={handleResumeGame}
+        />
       )}
       {screen === 'game' && gameState && (
-        <GameBoard onExitGame={handleExitGame} aiDifficulty={aiDifficulty} />
+        <GameBoard
+          onExitGame={handleExitGame}
+          onWatchReplay={handleWatchReplay}
+          aiDifficulty={aiDifficulty}
+        />
       )}
       {screen === 'online-lobby' && (
         <OnlineLobby onBack={handleExitGame} onGameStart={handleOnlineGameStart} />
@@ -58,6 +82,9 @@ function App() {
           onExitGame={handleExitGame}
         />
       )}
+      {screen === 'replay' && replayLog && (
+        <ReplayViewer log={replayLog} onExit={handleExitGame} />
+      )}
     </div>
   );
 }
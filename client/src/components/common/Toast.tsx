@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+export interface ToastMessage {
+  id: number; // Changes for every toast, so the same text twice still shows twice
+  text: string;
+}
+
+interface ToastProps {
+  toast: ToastMessage | null;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export function Toast({ toast, onDismiss, duration = 3000 }: ToastProps) {
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [toast, onDismiss, duration]);
+
+  return (
+    <AnimatePresence>
+      {toast && (
+        <motion.div
+          key={toast.id}
+          className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 bg-red-600 text-white px-5 py-2 rounded-lg shadow-2xl font-medium"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+        >
+          {toast.text}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import type { CardColor } from '../../types/game.types';
+import type { CardColor } from 'spicy-uno-shared';
 
 interface ColorPickerProps {
   onSelect: (color: CardColor) => void;
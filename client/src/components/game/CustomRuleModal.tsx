@@ -1,11 +1,16 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '../common/Button';
+import { MAX_RULE_DRAW, describeRuleEffect, validateRuleEffect } from 'spicy-uno-shared';
+import type { CardMatcher, CardValue, CustomRule, RuleEffect } from 'spicy-uno-shared';
 
 type RuleType = 'behavioral' | 'speech' | 'penalty' | 'action';
 
 interface CustomRuleModalProps {
-  onSubmit: (text: string, type: RuleType) => void;
+  onSubmit: (text: string, type: RuleType, effect?: RuleEffect, penalty?: number) => void;
+  rules?: CustomRule[];     // Rules in force, offered for repeal
+  onRepeal?: (ruleId: string) => void;  // Set when the table allows repeals
+  putToVote?: boolean;      // The other players vote on the change
 }
 
 const SUGGESTIONS = [
@@ -17,13 +22,56 @@ const SUGGESTIONS = [
   { text: 'Must say "thank you" when drawing', type: 'speech' as RuleType },
 ];
 
-export function CustomRuleModal({ onSubmit }: CustomRuleModalProps) {
+const EFFECT_KINDS: { kind: RuleEffect['kind']; label: string }[] = [
+  { kind: 'others_draw', label: 'Everyone else draws' },
+  { kind: 'also_reverse', label: 'Also reverses' },
+  { kind: 'also_skip', label: 'Also skips' },
+  { kind: 'play_on_anything', label: 'Goes on anything' },
+];
+
+const MATCH_COLORS: (CardMatcher['color'] | undefined)[] = [undefined, 'red', 'yellow', 'green', 'blue'];
+
+const MATCH_VALUES: (CardValue | undefined)[] = [
+  undefined, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 'skip', 'reverse', 'draw2', 'wild', 'wild_draw4',
+];
+
+const VALUE_LABELS: Partial<Record<string, string>> = {
+  skip: 'Skip',
+  reverse: 'Rev',
+  draw2: '+2',
+  wild: 'Wild',
+  wild_draw4: '+4',
+};
+
+export function CustomRuleModal({ onSubmit, rules = [], onRepeal, putToVote = false }: CustomRuleModalProps) {
+  const [mode, setMode] = useState<'honor' | 'enforced' | 'repeal'>('honor');
   const [ruleText, setRuleText] = useState('');
   const [ruleType, setRuleType] = useState<RuleType>('behavioral');
+  const [penalty, setPenalty] = useState(1);  // Cards drawn when someone is found guilty of breaking it
+
+  // Enforced rule builder
+  const [kind, setKind] = useState<RuleEffect['kind']>('others_draw');
+  const [cards, setCards] = useState<CardMatcher>({ color: 'red', value: 3 });
+  const [drawCount, setDrawCount] = useState(1);
+
+  const [repealId, setRepealId] = useState<string | null>(null);
+  const canRepeal = !!onRepeal && rules.length > 0;
+
+  const effect: RuleEffect = kind === 'others_draw' ? { kind, cards, count: drawCount } : { kind, cards };
+  const validation = validateRuleEffect(effect);
 
   const handleSubmit = () => {
+    if (mode === 'repeal') {
+      if (repealId) onRepeal?.(repealId);
+      return;
+    }
+    if (mode === 'enforced') {
+      // They change what cards do, so they count as action rules
+      if (validation.valid) onSubmit(describeRuleEffect(effect), 'action', effect);
+      return;
+    }
     if (ruleText.trim()) {
-      onSubmit(ruleText.trim(), ruleType);
+      onSubmit(ruleText.trim(), ruleType, undefined, penalty);
     }
   };
 
@@ -49,65 +97,210 @@ export function CustomRuleModal({ onSubmit }: CustomRuleModalProps) {
           <p className="text-gray-400 mt-2">
             You played a 0! Create a new rule everyone must follow.
           </p>
+          {putToVote && (
+            <p className="text-yellow-400 text-sm mt-1">🗳️ The other players will vote on it</p>
+          )}
         </div>
 
-        {/* Suggestions */}
-        <div className="mb-6">
-          <label className="block text-gray-400 text-sm mb-2">Quick suggestions:</label>
-          <div className="flex flex-wrap gap-2">
-            {SUGGESTIONS.map((suggestion, index) => (
-              <button
-                key={index}
-                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-full transition-colors"
-                onClick={() => handleSuggestionClick(suggestion)}
-              >
-                {suggestion.text}
-              </button>
-            ))}
-          </div>
+        {/* Honor system or enforced by the game */}
+        <div className="flex gap-2 mb-6">
+          {([
+            ['honor', '🤝 Honor System'],
+            ['enforced', '⚙️ Enforced'],
+            ...(canRepeal ? [['repeal', '✂️ Repeal']] as const : []),
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              className={`flex-1 py-2 px-3 rounded-lg font-medium transition-all ${
+                mode === value ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+              }`}
+              onClick={() => setMode(value)}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        {/* Rule input */}
-        <div className="mb-6">
-          <label className="block text-gray-400 text-sm mb-2">Your rule:</label>
-          <textarea
-            value={ruleText}
-            onChange={(e) => setRuleText(e.target.value)}
-            placeholder="Enter your custom rule..."
-            maxLength={100}
-            className="w-full bg-gray-700 text-white px-4 py-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
-            rows={3}
-          />
-          <div className="text-right text-gray-500 text-sm mt-1">
-            {ruleText.length}/100
+        {mode === 'repeal' ? (
+          <div className="mb-6">
+            <label className="block text-gray-400 text-sm mb-2">Rule to scrap:</label>
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {rules.map((rule) => (
+                <button
+                  key={rule.id}
+                  className={`w-full text-left py-2 px-3 rounded-lg text-sm transition-all ${
+                    repealId === rule.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setRepealId(rule.id)}
+                >
+                  {rule.effect && <span className="mr-2">⚙️</span>}
+                  {rule.text}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        ) : mode === 'enforced' ? (
+          <>
+            {/* What the rule does */}
+            <div className="mb-4">
+              <label className="block text-gray-400 text-sm mb-2">Playing one...</label>
+              <div className="grid grid-cols-2 gap-2">
+                {EFFECT_KINDS.map(({ kind: value, label }) => (
+                  <button
+                    key={value}
+                    className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${
+                      kind === value ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setKind(value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
 
-        {/* Rule type */}
-        <div className="mb-6">
-          <label className="block text-gray-400 text-sm mb-2">Rule type:</label>
-          <div className="grid grid-cols-2 gap-2">
-            {[
-              { type: 'behavioral' as RuleType, label: 'Behavioral', emoji: '🎭' },
-              { type: 'speech' as RuleType, label: 'Speech', emoji: '💬' },
-              { type: 'penalty' as RuleType, label: 'Penalty', emoji: '⚠️' },
-              { type: 'action' as RuleType, label: 'Action', emoji: '🎬' },
-            ].map(({ type, label, emoji }) => (
-              <button
-                key={type}
-                className={`flex items-center gap-2 py-2 px-3 rounded-lg font-medium transition-all ${
-                  ruleType === type
-                    ? 'bg-purple-600 text-white'
-                    : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
-                }`}
-                onClick={() => setRuleType(type)}
-              >
-                <span>{emoji}</span>
-                <span>{label}</span>
-              </button>
-            ))}
-          </div>
-        </div>
+            {kind === 'others_draw' && (
+              <div className="mb-4">
+                <label className="block text-gray-400 text-sm mb-2">Cards to draw:</label>
+                <div className="flex gap-2">
+                  {Array.from({ length: MAX_RULE_DRAW }, (_, i) => i + 1).map((count) => (
+                    <button
+                      key={count}
+                      className={`flex-1 py-1 rounded-lg text-sm font-medium transition-all ${
+                        drawCount === count ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                      }`}
+                      onClick={() => setDrawCount(count)}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Which cards it applies to */}
+            <div className="mb-4">
+              <label className="block text-gray-400 text-sm mb-2">Color:</label>
+              <div className="flex gap-2">
+                {MATCH_COLORS.map((color) => (
+                  <button
+                    key={color ?? 'any'}
+                    className={`flex-1 py-1 rounded-lg text-sm font-medium capitalize transition-all ${
+                      cards.color === color ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setCards({ ...cards, color })}
+                  >
+                    {color ?? 'Any'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-gray-400 text-sm mb-2">Card:</label>
+              <div className="grid grid-cols-8 gap-1">
+                {MATCH_VALUES.map((value) => (
+                  <button
+                    key={value ?? 'any'}
+                    className={`py-1 rounded-lg text-sm font-medium transition-all ${
+                      cards.value === value ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setCards({ ...cards, value })}
+                  >
+                    {value === undefined ? 'Any' : (VALUE_LABELS[value] ?? value)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* How it will read */}
+            <div className="mb-6 bg-gray-900/60 rounded-lg px-4 py-3 text-center">
+              {validation.valid ? (
+                <span className="text-white font-medium">{describeRuleEffect(effect)}</span>
+              ) : (
+                <span className="text-red-400 text-sm">{validation.reason}</span>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Suggestions */}
+            <div className="mb-6">
+              <label className="block text-gray-400 text-sm mb-2">Quick suggestions:</label>
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTIONS.map((suggestion, index) => (
+                  <button
+                    key={index}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm rounded-full transition-colors"
+                    onClick={() => handleSuggestionClick(suggestion)}
+                  >
+                    {suggestion.text}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Rule input */}
+            <div className="mb-6">
+              <label className="block text-gray-400 text-sm mb-2">Your rule:</label>
+              <textarea
+                value={ruleText}
+                onChange={(e) => setRuleText(e.target.value)}
+                placeholder="Enter your custom rule..."
+                maxLength={100}
+                className="w-full bg-gray-700 text-white px-4 py-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+                rows={3}
+              />
+              <div className="text-right text-gray-500 text-sm mt-1">
+                {ruleText.length}/100
+              </div>
+            </div>
+
+            {/* Rule type */}
+            <div className="mb-6">
+              <label className="block text-gray-400 text-sm mb-2">Rule type:</label>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { type: 'behavioral' as RuleType, label: 'Behavioral', emoji: '🎭' },
+                  { type: 'speech' as RuleType, label: 'Speech', emoji: '💬' },
+                  { type: 'penalty' as RuleType, label: 'Penalty', emoji: '⚠️' },
+                  { type: 'action' as RuleType, label: 'Action', emoji: '🎬' },
+                ].map(({ type, label, emoji }) => (
+                  <button
+                    key={type}
+                    className={`flex items-center gap-2 py-2 px-3 rounded-lg font-medium transition-all ${
+                      ruleType === type
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setRuleType(type)}
+                  >
+                    <span>{emoji}</span>
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* What a guilty verdict costs */}
+            <div className="mb-6">
+              <label className="block text-gray-400 text-sm mb-2">Breaking it costs (cards):</label>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_RULE_DRAW }, (_, i) => i + 1).map((count) => (
+                  <button
+                    key={count}
+                    className={`flex-1 py-1 rounded-lg text-sm font-medium transition-all ${
+                      penalty === count ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setPenalty(count)}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Submit */}
         <Button
@@ -115,9 +308,11 @@ export function CustomRuleModal({ onSubmit }: CustomRuleModalProps) {
           size="lg"
           className="w-full"
           onClick={handleSubmit}
-          disabled={!ruleText.trim()}
+          disabled={
+            mode === 'repeal' ? !repealId : mode === 'enforced' ? !validation.valid : !ruleText.trim()
+          }
         >
-          Set Rule
+          {putToVote ? 'Put to Vote' : mode === 'repeal' ? 'Repeal Rule' : 'Set Rule'}
         </Button>
       </motion.div>
     </motion.div>
@@ -0,0 +1,77 @@
+import { motion } from 'framer-motion';
+import { Button } from '../common/Button';
+import type { Player, PendingAction } from 'spicy-uno-shared';
+
+interface Draw4ChallengeUIProps {
+  pendingAction: PendingAction;
+  players: Player[];
+  currentPlayerId: string;
+  onAccept: () => void;
+  onChallenge: () => void;
+}
+
+export function Draw4ChallengeUI({
+  pendingAction,
+  players,
+  currentPlayerId,
+  onAccept,
+  onChallenge,
+}: Draw4ChallengeUIProps) {
+  const offender = players.find((p) => p.id === pendingAction.offenderId);
+  const target = players.find((p) => p.id === pendingAction.targetPlayer);
+  const isTarget = pendingAction.targetPlayer === currentPlayerId;
+
+  if (!isTarget) {
+    // Show waiting state for other players
+    return (
+      <motion.div
+        className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+      >
+        <div className="bg-gray-800 rounded-xl p-6 text-center">
+          <div className="text-4xl mb-4">⚖️</div>
+          <p className="text-white">
+            {target?.name} is deciding whether to challenge {offender?.name}'s +4...
+          </p>
+          <p className="text-gray-400 text-sm mt-2">Waiting for response</p>
+        </div>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/80 flex items-center justify-center z-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <motion.div
+        className="bg-gray-800 rounded-2xl p-8 max-w-md w-full mx-4 text-center"
+        initial={{ scale: 0.8, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+      >
+        <div className="text-6xl mb-4">⚖️</div>
+        <h2 className="text-2xl font-bold text-white mb-2">
+          {offender?.name} hit you with a Wild Draw Four!
+        </h2>
+        <p className="text-gray-400 mb-6">
+          Think they were still holding <span className="font-medium capitalize">{pendingAction.color}</span>?
+          <br />
+          <span className="text-yellow-400 font-medium">
+            Catch the bluff and they draw 4 - guess wrong and you draw 6!
+          </span>
+        </p>
+
+        <div className="flex gap-4">
+          <Button variant="secondary" size="lg" className="flex-1" onClick={onAccept}>
+            Draw 4
+          </Button>
+          <Button variant="danger" size="lg" className="flex-1" onClick={onChallenge}>
+            Challenge
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
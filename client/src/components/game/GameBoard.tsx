@@ -8,33 +8,57 @@ import { SlapOverlay } from './SlapOverlay';
 import { CustomRuleModal } from './CustomRuleModal';
 import { SilenceReporter } from './SilenceReporter';
 import { OfferCardUI } from './OfferCardUI';
+import { Draw4ChallengeUI } from './Draw4ChallengeUI';
+import { SwapHandsModal } from './SwapHandsModal';
+import { RuleVoteUI } from './RuleVoteUI';
+import { TribunalUI } from './TribunalUI';
+import { ReportViolationModal } from './ReportViolationModal';
 import { AskForCardModal } from './AskForCardModal';
 import { RespondToRequestUI } from './RespondToRequestUI';
 import { PassDeviceScreen } from './PassDeviceScreen';
-import type { CardColor } from '../../types/game.types';
-import type { AIDifficulty } from '../../ai/AIPlayer';
+import { Scoreboard } from './Scoreboard';
+import { RoundOutcome } from './RoundOutcome';
+import { StackHint } from './StackHint';
+import { SILENCE_RULE_ID, describeMatch, isMultiRound, isPlayerOut } from 'spicy-uno-shared';
+import type { CardColor, GameLog, AIDifficulty, RuleEffect } from 'spicy-uno-shared';
 
 interface GameBoardProps {
   onExitGame: () => void;
+  onWatchReplay?: (log: GameLog) => void;
   aiDifficulty?: AIDifficulty;
 }
 
-export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProps) {
+export function GameBoard({ onExitGame, onWatchReplay, aiDifficulty = 'medium' }: GameBoardProps) {
   const {
     gameState,
     engine,
     playCard,
     drawCard,
+    passTurn,
     callUno,
     selectColor,
     createCustomRule,
     slap,
-    reportSpeaking,
+    reportViolation,
+    voteVerdict,
     requestCard,
     declineRequest,
     offerCard,
     acceptOffer,
     declineOffer,
+    acceptDraw4,
+    challengeDraw4,
+    swapHands,
+    repealCustomRule,
+    voteRule,
+    resetGame,
+    matchState,
+    startNextRound,
+    takebacks,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
   } = useGameStore();
 
   const [showColorPicker, setShowColorPicker] = useState(false);
@@ -42,6 +66,7 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
   const [showPassDevice, setShowPassDevice] = useState(false);
   const [viewingPlayerId, setViewingPlayerId] = useState<string | null>(null);
   const [showAskModal, setShowAskModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   const lastTurnIndexRef = useRef<number>(-1);
 
   // Determine if this is an AI game or local multiplayer
@@ -83,6 +108,12 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
     lastTurnIndexRef.current = gameState.currentPlayerIndex;
   }, [gameState?.currentPlayerIndex, isLocalMultiplayer, gameState?.phase]);
 
+  // The next round starts after the new dealer, so hand the device over
+  const handleNextRound = () => {
+    startNextRound();
+    if (isLocalMultiplayer) setShowPassDevice(true);
+  };
+
   const handlePassDeviceReady = useCallback(() => {
     if (!gameState) return;
     setViewingPlayerId(gameState.players[gameState.currentPlayerIndex].id);
@@ -98,6 +129,21 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
   const currentPlayer = gameState.players.find((p) => p.id === currentPlayerId);
   const activePlayer = gameState.players[gameState.currentPlayerIndex];
   const isMyTurn = activePlayer.id === currentPlayerId;
+  const isOut = isPlayerOut(gameState, currentPlayerId); // A knocked out human watches the AIs finish
+  const isMatchOver = !matchState || matchState.winnerId !== null;
+  const matchLabel = matchState && describeMatch(matchState);
+  const { enabledRules } = engine.getConfig();
+
+  // Around one screen everyone still in the round votes by show of hands
+  const voterIds = isLocalMultiplayer
+    ? gameState.players.filter((p) => !isPlayerOut(gameState, p.id)).map((p) => p.id)
+    : [currentPlayerId];
+
+  // A report needs someone besides the two players involved to judge it
+  const hasJury = gameState.players.filter((p) => !isPlayerOut(gameState, p.id)).length >= 3;
+  // Honor-system rules only get reported between turns, never while another call is pending
+  const canReport =
+    gameState.phase === 'playing' && !isOut && hasJury && gameState.customRules.some((r) => !r.effect);
 
   // Get valid moves for the viewing player
   const validMoves = engine.getValidMoves(currentPlayerId);
@@ -127,6 +173,11 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
   const handleDeckClick = () => {
     if (!isMyTurn) return;
     if (activePlayer.type === 'ai') return;
+    // Already drew a playable card and chose to keep it
+    if (gameState.drawnCardId) {
+      passTurn(currentPlayerId);
+      return;
+    }
     drawCard(currentPlayerId);
   };
 
@@ -148,12 +199,22 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
     slap(currentPlayerId, Date.now());
   };
 
-  const handleCreateRule = (text: string, type: 'behavioral' | 'speech' | 'penalty' | 'action') => {
-    createCustomRule(currentPlayerId, text, type);
+  const handleCreateRule = (
+    text: string,
+    type: 'behavioral' | 'speech' | 'penalty' | 'action',
+    effect?: RuleEffect,
+    penalty?: number
+  ) => {
+    createCustomRule(currentPlayerId, text, type, effect, penalty);
   };
 
   const handleReportSpeaking = (targetId: string) => {
-    reportSpeaking(currentPlayerId, targetId);
+    reportViolation(currentPlayerId, targetId, SILENCE_RULE_ID);
+  };
+
+  const handleReportViolation = (targetId: string, ruleId: string) => {
+    reportViolation(currentPlayerId, targetId, ruleId);
+    setShowReportModal(false);
   };
 
   const handleAcceptOffer = () => {
@@ -203,6 +264,12 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
       <div className="h-14 bg-gray-800 flex items-center justify-between px-4">
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-bold text-white">Spicy UNO</h1>
+          {matchState && matchLabel && (
+            <span className="text-gray-400 text-sm">
+              {isMultiRound(matchState) && `Round ${matchState.round} · `}
+              {matchLabel}
+            </span>
+          )}
           {gameState.silenceMode && (
             <div className="bg-red-600 px-3 py-1 rounded-full text-white text-sm font-medium animate-pulse">
               SILENCE MODE
@@ -230,6 +297,11 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
               {gameState.customRules.length} custom rule(s)
             </div>
           )}
+          {canReport && (
+            <Button variant="danger" size="sm" onClick={() => setShowReportModal(true)}>
+              Report
+            </Button>
+          )}
           <Button variant="secondary" size="sm" onClick={onExitGame}>
             Exit
           </Button>
@@ -255,9 +327,11 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
           onClick={handleDeckClick}
           disabled={!isMyTurn || activePlayer.type === 'ai'}
         >
-          Draw Card
+          {gameState.stackedSkipCount > 0 ? 'Take Skip' : gameState.drawnCardId ? 'Pass' : 'Draw Card'}
         </Button>
 
+        {isMyTurn && <StackHint gameState={gameState} stackDrawMode={engine.getConfig().stackDrawMode} />}
+
         <Button
           variant="danger"
           size="lg"
@@ -268,14 +342,35 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
           UNO!
         </Button>
 
-        {gameState.phase === 'slap_race' && (
+        {gameState.phase === 'slap_race' && !isOut && (
           <Button variant="success" size="lg" onClick={handleSlap} className="animate-bounce">
             SLAP!
           </Button>
         )}
 
-        {/* Ask for Card button - any player can ask anytime */}
-        {activePlayer.type !== 'ai' && (
+        {takebacks !== 'off' && (
+          <>
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={() => undo(currentPlayerId)}
+              disabled={!canUndo(currentPlayerId)}
+            >
+              Undo
+            </Button>
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={() => redo(currentPlayerId)}
+              disabled={!canRedo(currentPlayerId)}
+            >
+              Redo
+            </Button>
+          </>
+        )}
+
+        {/* Ask for Card button - only on your turn, between plays */}
+        {isMyTurn && activePlayer.type !== 'ai' && gameState.phase === 'playing' && (
           <Button
             variant="primary"
             size="lg"
@@ -291,15 +386,50 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
         <ColorPicker onSelect={handleColorSelect} onCancel={() => setShowColorPicker(false)} />
       )}
 
-      {gameState.phase === 'slap_race' && <SlapOverlay onSlap={handleSlap} />}
+      {gameState.phase === 'slap_race' && !isOut && <SlapOverlay onSlap={handleSlap} />}
 
       {gameState.phase === 'custom_rule_creation' && (
-        <CustomRuleModal onSubmit={handleCreateRule} />
+        <CustomRuleModal
+          onSubmit={handleCreateRule}
+          rules={gameState.customRules}
+          onRepeal={enabledRules.ruleRepeal ? (ruleId) => repealCustomRule(currentPlayerId, ruleId) : undefined}
+          putToVote={enabledRules.ruleVote}
+        />
+      )}
+
+      {/* Vote on a new or repealed custom rule */}
+      {gameState.phase === 'rule_vote' && gameState.pendingAction && (
+        <RuleVoteUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          voterIds={voterIds}
+          onVote={voteRule}
+        />
+      )}
+
+      {/* Report someone for breaking an honor-system rule */}
+      {showReportModal && canReport && (
+        <ReportViolationModal
+          gameState={gameState}
+          currentPlayerId={currentPlayerId}
+          onReport={handleReportViolation}
+          onCancel={() => setShowReportModal(false)}
+        />
+      )}
+
+      {/* The table judges a reported player */}
+      {gameState.phase === 'tribunal' && gameState.pendingAction && (
+        <TribunalUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          voterIds={voterIds}
+          onVote={voteVerdict}
+        />
       )}
 
       {/* Silence mode reporter */}
       <SilenceReporter
-        active={gameState.silenceMode}
+        active={gameState.silenceMode && hasJury}
         players={gameState.players}
         currentPlayerId={currentPlayerId}
         onReport={handleReportSpeaking}
@@ -316,6 +446,26 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
         />
       )}
 
+      {/* Wild Draw Four challenge */}
+      {gameState.phase === 'draw4_challenge' && gameState.pendingAction && (
+        <Draw4ChallengeUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          currentPlayerId={currentPlayerId}
+          onAccept={() => acceptDraw4(currentPlayerId)}
+          onChallenge={() => challengeDraw4(currentPlayerId)}
+        />
+      )}
+
+      {/* Seven-O hand swap */}
+      {gameState.phase === 'hand_swap' && (
+        <SwapHandsModal
+          gameState={gameState}
+          currentPlayerId={currentPlayerId}
+          onSelectPlayer={(targetId) => swapHands(currentPlayerId, targetId)}
+        />
+      )}
+
       {/* Ask for Card modal */}
       <AskForCardModal
         isOpen={showAskModal}
@@ -336,18 +486,35 @@ export function GameBoard({ onExitGame, aiDifficulty = 'medium' }: GameBoardProp
         />
       )}
 
-      {/* Game over overlay */}
+      {/* Game over overlay (between rounds of a match, the scoreboard) */}
       {gameState.phase === 'game_over' && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
           <div className="bg-gray-800 rounded-2xl p-8 text-center">
-            <h2 className="text-4xl font-bold text-yellow-400 mb-4">Game Over!</h2>
-            <p className="text-2xl text-white mb-6">
-              {gameState.players.find((p) => p.id === gameState.winner)?.name} wins!
-            </p>
+            <h2 className="text-4xl font-bold text-yellow-400 mb-4">
+              {isMatchOver ? 'Game Over!' : `Round ${matchState?.round} Over`}
+            </h2>
+            <RoundOutcome state={gameState} match={matchState} />
+            {matchState && isMultiRound(matchState) && (
+              <div className="flex justify-center my-4">
+                <Scoreboard match={matchState} players={gameState.players} />
+              </div>
+            )}
+            <p className="text-gray-500 text-sm mb-6">Seed: {engine.getSeed()}</p>
             <div className="flex gap-4 justify-center">
-              <Button variant="primary" size="lg" onClick={() => engine.reset()}>
-                Play Again
-              </Button>
+              {isMatchOver ? (
+                <Button variant="primary" size="lg" onClick={resetGame}>
+                  Play Again
+                </Button>
+              ) : (
+                <Button variant="primary" size="lg" onClick={handleNextRound}>
+                  Next Round
+                </Button>
+              )}
+              {onWatchReplay && (
+                <Button variant="secondary" size="lg" onClick={() => onWatchReplay(engine.exportLog())}>
+                  Watch Replay
+                </Button>
+              )}
               <Button variant="secondary" size="lg" onClick={onExitGame}>
                 Exit
               </Button>
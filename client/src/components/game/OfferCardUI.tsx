@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion';
 import { Button } from '../common/Button';
-import type { Player, PendingAction } from '../../types/game.types';
+import type { Player, PendingAction } from 'spicy-uno-shared';
 
 interface OfferCardUIProps {
   pendingAction: PendingAction;
@@ -2,14 +2,25 @@ import { useState, useCallback, useEffect } from 'react';
 import { GameCanvas } from '../../graphics/GameCanvas';
 import { socketService } from '../../multiplayer/socketService';
 import { Button } from '../common/Button';
+import { Toast, type ToastMessage } from '../common/Toast';
 import { ColorPicker } from './ColorPicker';
 import { SlapOverlay } from './SlapOverlay';
+import { SlapResults } from './SlapResults';
+import { Scoreboard } from './Scoreboard';
+import { RoundOutcome } from './RoundOutcome';
+import { StackHint } from './StackHint';
 import { CustomRuleModal } from './CustomRuleModal';
 import { SilenceReporter } from './SilenceReporter';
 import { OfferCardUI } from './OfferCardUI';
+import { Draw4ChallengeUI } from './Draw4ChallengeUI';
+import { SwapHandsModal } from './SwapHandsModal';
+import { RuleVoteUI } from './RuleVoteUI';
+import { TribunalUI } from './TribunalUI';
+import { ReportViolationModal } from './ReportViolationModal';
 import { AskForCardModal } from './AskForCardModal';
 import { RespondToRequestUI } from './RespondToRequestUI';
-import type { GameState, CardColor } from '../../types/game.types';
+import type { GameState, GameAction, CardColor, SlapResult, Spectator, MatchState, RuleEffect } from 'spicy-uno-shared';
+import { isPlayableUnderRules, canStackDraw, isSkipCard, getCurrentColor, isPlayerOut, describeMatch, isMultiRound, SILENCE_RULE_ID } from 'spicy-uno-shared';
 
 interface OnlineGameBoardProps {
   initialState: GameState;
@@ -17,11 +28,21 @@ interface OnlineGameBoardProps {
   onExitGame: () => void;
 }
 
+const SLAP_RESULT_DISPLAY_MS = 4000;
+
 export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGameBoardProps) {
   const [gameState, setGameState] = useState<GameState>(initialState);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [pendingCardId, setPendingCardId] = useState<string | null>(null);
   const [showAskModal, setShowAskModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [slapResult, setSlapResult] = useState<SlapResult | null>(null);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const [spectators, setSpectators] = useState<Spectator[]>(() => socketService.spectators);
+  const [matchState, setMatchState] = useState<MatchState | null>(() => socketService.match);
+  const dismissToast = useCallback(() => setToast(null), []);
+  const isSpectator = socketService.isSpectator;
 
   // Subscribe to game state updates
   useEffect(() => {
@@ -29,38 +50,81 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
       onGameStateUpdated: (state) => {
         setGameState(state);
       },
+      // The next round of a match
+      onGameStarted: (state) => setGameState(state),
+      onMatchUpdated: (match) => setMatchState(match),
+      onSlapResult: (result) => setSlapResult(result),
+      onSpectatorsChanged: (newSpectators) => setSpectators(newSpectators),
+      onKicked: () => onExitGame(),
+      onError: (message) => setToast({ id: Date.now(), text: message }),
       onDisconnected: () => {
         // Handle disconnect
         onExitGame();
       },
+      onReconnecting: () => setIsReconnecting(true),
+      onReconnected: ({ state, match }) => {
+        // The server resends our view of the game once the seat is reclaimed
+        setIsReconnecting(false);
+        if (state) setGameState(state);
+        setMatchState(match);
+      },
     });
   }, [onExitGame]);
 
+  // Show the slap results for a few seconds
+  useEffect(() => {
+    if (!slapResult) return;
+    const timeout = setTimeout(() => setSlapResult(null), SLAP_RESULT_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [slapResult]);
+
+  // Send an action and tell the player if the server refused it
+  const sendAction = async (action: Omit<GameAction, 'playerId'>) => {
+    const ack = await socketService.sendAction(action);
+    if (!ack.ok) {
+      setToast({ id: Date.now(), text: ack.reason });
+    }
+  };
+
   const currentPlayer = gameState.players.find((p) => p.id === playerId);
   const activePlayer = gameState.players[gameState.currentPlayerIndex];
   const isMyTurn = activePlayer?.id === playerId;
+  // Knocked out, or already out of cards in reverse mode - watching until the round ends
+  const isOut = !isSpectator && isPlayerOut(gameState, playerId);
+  const isMatchOver = !matchState || matchState.winnerId !== null;
+  const matchLabel = matchState && describeMatch(matchState);
+  const absentPlayers = gameState.players.filter((p) => !p.isConnected || p.isBotControlled);
+  // A report needs someone besides the two players involved to judge it
+  const hasJury = gameState.players.filter((p) => !isPlayerOut(gameState, p.id)).length >= 3;
+  const canReport =
+    !isSpectator && !isOut && hasJury && gameState.phase === 'playing' && gameState.customRules.some((r) => !r.effect);
 
   // Calculate valid moves locally (cards that match color/value)
   const getValidMoveIds = useCallback((): string[] => {
     if (!currentPlayer || !isMyTurn) return [];
 
     const topCard = gameState.discardPile[gameState.discardPile.length - 1];
-    const effectiveColor = gameState.selectedWildColor || topCard?.color;
+    const currentColor = getCurrentColor(topCard, gameState.selectedWildColor ?? undefined);
 
-    // If there's stacked draw, only +2/+4 can be played
+    // If there's stacked draw, only the draw cards the room's stacking mode allows can be played
     if (gameState.stackedDrawAmount > 0) {
       return currentPlayer.hand
-        .filter((c) => c.value === 'draw2' || c.value === 'wild_draw4')
+        .filter((c) => canStackDraw(c, topCard, socketService.config?.stackDrawMode))
         .map((c) => c.id);
     }
 
+    // Having drawn a playable card, it's that card or pass
+    if (gameState.drawnCardId) {
+      return currentPlayer.hand.filter((c) => c.id === gameState.drawnCardId).map((c) => c.id);
+    }
+
+    // Stacked skips can only be passed on with another skip
+    if (gameState.stackedSkipCount > 0) {
+      return currentPlayer.hand.filter(isSkipCard).map((c) => c.id);
+    }
+
     return currentPlayer.hand
-      .filter((card) => {
-        if (card.color === 'wild') return true;
-        if (card.color === effectiveColor) return true;
-        if (card.value === topCard?.value) return true;
-        return false;
-      })
+      .filter((card) => isPlayableUnderRules(card, topCard, currentColor, gameState.customRules))
       .map((c) => c.id);
   }, [currentPlayer, isMyTurn, gameState]);
 
@@ -81,62 +145,73 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
     }
 
     // Play the card
-    socketService.sendAction({ type: 'play_card', cardId });
+    sendAction({ type: 'play_card', cardId });
   };
 
   const handleDeckClick = () => {
     if (!isMyTurn) return;
-    socketService.sendAction({ type: 'draw_card' });
+    // Already drew a playable card and chose to keep it
+    sendAction({ type: gameState.drawnCardId ? 'pass_turn' : 'draw_card' });
   };
 
   const handleColorSelect = (color: CardColor) => {
     if (pendingCardId) {
-      socketService.sendAction({ type: 'play_card', cardId: pendingCardId, wildColor: color });
+      sendAction({ type: 'play_card', cardId: pendingCardId, wildColor: color });
       setPendingCardId(null);
     } else if (gameState.phase === 'color_selection') {
-      socketService.sendAction({ type: 'select_color', wildColor: color });
+      sendAction({ type: 'select_color', wildColor: color });
     }
     setShowColorPicker(false);
   };
 
   const handleCallUno = () => {
-    socketService.sendAction({ type: 'call_uno' });
+    sendAction({ type: 'call_uno' });
   };
 
   const handleSlap = () => {
-    socketService.sendAction({ type: 'slap', timestamp: Date.now() });
+    sendAction({ type: 'slap', timestamp: Date.now() });
   };
 
-  const handleCreateRule = (text: string, type: 'behavioral' | 'speech' | 'penalty' | 'action') => {
-    socketService.sendAction({
+  const handleCreateRule = (
+    text: string,
+    type: 'behavioral' | 'speech' | 'penalty' | 'action',
+    effect?: RuleEffect,
+    penalty?: number
+  ) => {
+    sendAction({
       type: 'create_custom_rule',
-      customRule: { text, type, createdBy: playerId },
+      customRule: { text, type, createdBy: playerId, effect, penalty },
     });
   };
 
   const handleReportSpeaking = (targetId: string) => {
-    socketService.sendAction({ type: 'report_speaking', targetPlayerId: targetId });
+    sendAction({ type: 'report_violation', targetPlayerId: targetId, ruleId: SILENCE_RULE_ID });
+  };
+
+  const handleReportViolation = (targetId: string, ruleId: string) => {
+    sendAction({ type: 'report_violation', targetPlayerId: targetId, ruleId });
+    setShowReportModal(false);
   };
 
   const handleRequestCard = (targetPlayerId: string) => {
-    socketService.sendAction({ type: 'request_card', targetPlayerId });
+    sendAction({ type: 'request_card', targetPlayerId });
     setShowAskModal(false);
   };
 
   const handleOfferCardResponse = (cardId: string) => {
-    socketService.sendAction({ type: 'offer_card', cardId });
+    sendAction({ type: 'offer_card', cardId });
   };
 
   const handleDeclineRequest = () => {
-    socketService.sendAction({ type: 'decline_request' });
+    sendAction({ type: 'decline_request' });
   };
 
   const handleAcceptOffer = () => {
-    socketService.sendAction({ type: 'accept_offer' });
+    sendAction({ type: 'accept_offer' });
   };
 
   const handleDeclineOffer = () => {
-    socketService.sendAction({ type: 'decline_offer' });
+    sendAction({ type: 'decline_offer' });
   };
 
   const canCallUno = currentPlayer && currentPlayer.hand.length === 2 && !currentPlayer.hasCalledUno && isMyTurn;
@@ -157,6 +232,12 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-bold text-white">Spicy UNO</h1>
           <span className="text-purple-400 text-sm">Online</span>
+          {matchState && matchLabel && (
+            <span className="text-gray-400 text-sm">
+              {isMultiRound(matchState) && `Round ${matchState.round} · `}
+              {matchLabel}
+            </span>
+          )}
           {gameState.silenceMode && (
             <div className="bg-red-600 px-3 py-1 rounded-full text-white text-sm font-medium animate-pulse">
               SILENCE MODE
@@ -166,6 +247,8 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
 
         <div className="flex items-center gap-4">
           <div className="text-gray-300 text-sm">
+            {isSpectator && <span className="text-blue-400 font-medium mr-2">Spectating ·</span>}
+            {isOut && <span className="text-blue-400 font-medium mr-2">Out ·</span>}
             {isMyTurn ? (
               <span className="text-green-400 font-medium">Your turn!</span>
             ) : (
@@ -177,12 +260,46 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
               {gameState.customRules.length} custom rule(s)
             </div>
           )}
+          {canReport && (
+            <Button variant="danger" size="sm" onClick={() => setShowReportModal(true)}>
+              Report
+            </Button>
+          )}
           <Button variant="secondary" size="sm" onClick={handleExit}>
             Exit
           </Button>
         </div>
       </div>
 
+      {/* Players who have dropped, and whether a bot is covering for them */}
+      {absentPlayers.length > 0 && (
+        <div className="bg-gray-800 border-t border-gray-700 flex items-center justify-center gap-2 py-1">
+          {absentPlayers.map((player) => (
+            <span
+              key={player.id}
+              className={`px-3 py-0.5 rounded-full text-xs font-medium ${
+                player.isBotControlled ? 'bg-blue-600 text-white' : 'bg-gray-600 text-gray-300'
+              }`}
+            >
+              {player.name}: {player.isBotControlled ? 'bot playing' : 'disconnected'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Who is watching */}
+      {spectators.length > 0 && (
+        <div className="bg-gray-800 border-t border-gray-700 text-gray-400 text-xs text-center py-1">
+          Watching: {spectators.map((s) => (s.id === playerId ? `${s.name} (You)` : s.name)).join(', ')}
+        </div>
+      )}
+
+      {isReconnecting && (
+        <div className="bg-yellow-600 text-white text-sm text-center py-1">
+          Connection lost, reconnecting...
+        </div>
+      )}
+
       {/* Game area */}
       <div className="flex-1 flex items-center justify-center p-4">
         <GameCanvas
@@ -191,58 +308,107 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
           onCardClick={handleCardClick}
           onDeckClick={handleDeckClick}
           validMoves={isMyTurn ? validMoveIds : []}
+          clockOffset={socketService.clockOffset}
         />
       </div>
 
       {/* Bottom action bar */}
-      <div className="h-20 bg-gray-800 flex items-center justify-center gap-4 px-4">
-        <Button
-          variant="secondary"
-          size="lg"
-          onClick={handleDeckClick}
-          disabled={!isMyTurn}
-        >
-          Draw Card
-        </Button>
-
-        <Button
-          variant="danger"
-          size="lg"
-          onClick={handleCallUno}
-          disabled={!canCallUno}
-          className={canCallUno ? 'animate-pulse' : ''}
-        >
-          UNO!
-        </Button>
-
-        {gameState.phase === 'slap_race' && (
-          <Button variant="success" size="lg" onClick={handleSlap} className="animate-bounce">
-            SLAP!
+      {!isSpectator && !isOut && (
+        <div className="h-20 bg-gray-800 flex items-center justify-center gap-4 px-4">
+          <Button
+            variant="secondary"
+            size="lg"
+            onClick={handleDeckClick}
+            disabled={!isMyTurn}
+          >
+            {gameState.stackedSkipCount > 0 ? 'Take Skip' : gameState.drawnCardId ? 'Pass' : 'Draw Card'}
           </Button>
-        )}
-
-        <Button
-          variant="primary"
-          size="lg"
-          onClick={() => setShowAskModal(true)}
-        >
-          Ask for Card
-        </Button>
-      </div>
+
+          {isMyTurn && <StackHint gameState={gameState} stackDrawMode={socketService.config?.stackDrawMode} />}
+
+          <Button
+            variant="danger"
+            size="lg"
+            onClick={handleCallUno}
+            disabled={!canCallUno}
+            className={canCallUno ? 'animate-pulse' : ''}
+          >
+            UNO!
+          </Button>
+
+          {gameState.phase === 'slap_race' && (
+            <Button variant="success" size="lg" onClick={handleSlap} className="animate-bounce">
+              SLAP!
+            </Button>
+          )}
+
+          {isMyTurn && gameState.phase === 'playing' && (
+            <Button
+              variant="primary"
+              size="lg"
+              onClick={() => setShowAskModal(true)}
+            >
+              Ask for Card
+            </Button>
+          )}
+        </div>
+      )}
 
       {/* Overlays */}
-      {(showColorPicker || gameState.phase === 'color_selection') && (
+      {!isSpectator && (showColorPicker || gameState.phase === 'color_selection') && (
         <ColorPicker onSelect={handleColorSelect} onCancel={() => setShowColorPicker(false)} />
       )}
 
-      {gameState.phase === 'slap_race' && <SlapOverlay onSlap={handleSlap} />}
+      {!isSpectator && !isOut && gameState.phase === 'slap_race' && (
+        <SlapOverlay onSlap={handleSlap} deadline={gameState.pendingAction?.deadline} />
+      )}
+
+      <SlapResults result={slapResult} players={gameState.players} currentPlayerId={playerId} />
+
+      <Toast toast={toast} onDismiss={dismissToast} />
 
       {gameState.phase === 'custom_rule_creation' && activePlayer?.id === playerId && (
-        <CustomRuleModal onSubmit={handleCreateRule} />
+        <CustomRuleModal
+          onSubmit={handleCreateRule}
+          rules={gameState.customRules}
+          onRepeal={
+            socketService.config?.enabledRules.ruleRepeal
+              ? (ruleId) => sendAction({ type: 'repeal_custom_rule', ruleId })
+              : undefined
+          }
+          putToVote={socketService.config?.enabledRules.ruleVote}
+        />
+      )}
+
+      {gameState.phase === 'rule_vote' && gameState.pendingAction && (
+        <RuleVoteUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          voterIds={isSpectator || isOut ? [] : [playerId]}
+          onVote={(_voterId, vote) => sendAction({ type: 'vote_rule', vote })}
+        />
+      )}
+
+      {showReportModal && canReport && (
+        <ReportViolationModal
+          gameState={gameState}
+          currentPlayerId={playerId}
+          onReport={handleReportViolation}
+          onCancel={() => setShowReportModal(false)}
+        />
+      )}
+
+      {gameState.phase === 'tribunal' && gameState.pendingAction && (
+        <TribunalUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          voterIds={isSpectator || isOut ? [] : [playerId]}
+          onVote={(_voterId, guilty) => sendAction({ type: 'vote_verdict', vote: guilty })}
+        />
       )}
 
       <SilenceReporter
-        active={gameState.silenceMode}
+        active={gameState.silenceMode && !isSpectator && hasJury}
         players={gameState.players}
         currentPlayerId={playerId}
         onReport={handleReportSpeaking}
@@ -258,6 +424,24 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
         />
       )}
 
+      {gameState.phase === 'draw4_challenge' && gameState.pendingAction && (
+        <Draw4ChallengeUI
+          pendingAction={gameState.pendingAction}
+          players={gameState.players}
+          currentPlayerId={playerId}
+          onAccept={() => sendAction({ type: 'accept_draw4' })}
+          onChallenge={() => sendAction({ type: 'challenge_draw4' })}
+        />
+      )}
+
+      {gameState.phase === 'hand_swap' && (
+        <SwapHandsModal
+          gameState={gameState}
+          currentPlayerId={playerId}
+          onSelectPlayer={(targetPlayerId) => sendAction({ type: 'swap_hands', targetPlayerId })}
+        />
+      )}
+
       <AskForCardModal
         isOpen={showAskModal}
         currentPlayerId={playerId}
@@ -276,17 +460,34 @@ export function OnlineGameBoard({ initialState, playerId, onExitGame }: OnlineGa
         />
       )}
 
-      {/* Game over overlay */}
+      {/* Game over overlay (between rounds of a match, the scoreboard) */}
       {gameState.phase === 'game_over' && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
           <div className="bg-gray-800 rounded-2xl p-8 text-center">
-            <h2 className="text-4xl font-bold text-yellow-400 mb-4">Game Over!</h2>
-            <p className="text-2xl text-white mb-6">
-              {gameState.players.find((p) => p.id === gameState.winner)?.name} wins!
-            </p>
-            <Button variant="secondary" size="lg" onClick={handleExit}>
-              Exit
-            </Button>
+            <h2 className="text-4xl font-bold text-yellow-400 mb-4">
+              {isMatchOver ? 'Game Over!' : `Round ${matchState?.round} Over`}
+            </h2>
+            <div className="mb-4">
+              <RoundOutcome state={gameState} match={matchState} />
+            </div>
+            {matchState && isMultiRound(matchState) && (
+              <div className="flex justify-center mb-6">
+                <Scoreboard match={matchState} players={gameState.players} currentPlayerId={playerId} />
+              </div>
+            )}
+            {!isMatchOver && !socketService.isHost && (
+              <p className="text-gray-400 text-sm mb-4">Waiting for the host to deal the next round...</p>
+            )}
+            <div className="flex gap-4 justify-center">
+              {!isMatchOver && socketService.isHost && (
+                <Button variant="primary" size="lg" onClick={() => socketService.nextRound()}>
+                  Next Round
+                </Button>
+              )}
+              <Button variant="secondary" size="lg" onClick={handleExit}>
+                Exit
+              </Button>
+            </div>
           </div>
         </div>
       )}
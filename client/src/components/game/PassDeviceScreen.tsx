@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion';
 import { Button } from '../common/Button';
-import type { Player } from '../../types/game.types';
+import type { Player } from 'spicy-uno-shared';
 
 interface PassDeviceScreenProps {
   nextPlayer: Player;
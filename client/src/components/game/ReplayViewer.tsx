@@ -0,0 +1,180 @@
+import { useState, useEffect, useMemo } from 'react';
+import { GameCanvas } from '../../graphics/GameCanvas';
+import { Button } from '../common/Button';
+import { GameReplay, getCardDisplayName } from 'spicy-uno-shared';
+import type { GameLog, GameLogEntry, GameState } from 'spicy-uno-shared';
+
+interface ReplayViewerProps {
+  log: GameLog;
+  onExit: () => void;
+}
+
+const PLAYBACK_INTERVAL_MS = 800;
+
+export function ReplayViewer({ log, onExit }: ReplayViewerProps) {
+  const replay = useMemo(() => new GameReplay(log), [log]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [viewingPlayerId, setViewingPlayerId] = useState<string | null>(null);
+
+  const gameState = useMemo(() => replay.seek(position), [replay, position]);
+  const entry = replay.getCurrentEntry();
+  const atEnd = position >= replay.length;
+
+  // Auto-advance while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPosition((p) => Math.min(p + 1, replay.length));
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, replay]);
+
+  const handleTogglePlay = () => {
+    if (atEnd) setPosition(0);
+    setIsPlaying(!isPlaying || atEnd);
+  };
+
+  const handlePreviousTurn = () => {
+    replay.previousTurn();
+    setPosition(replay.getPosition());
+  };
+
+  const handleNextTurn = () => {
+    replay.nextTurn();
+    setPosition(replay.getPosition());
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `spicy-uno-${log.config.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const viewerId = viewingPlayerId ?? gameState.players[0].id;
+
+  return (
+    <div className="h-screen w-screen bg-gray-900 flex flex-col">
+      {/* Top bar */}
+      <div className="h-14 bg-gray-800 flex items-center justify-between px-4">
+        <div className="flex items-center gap-4">
+          <h1 className="text-xl font-bold text-white">Spicy UNO</h1>
+          <span className="text-yellow-400 text-sm">Replay</span>
+          <span className="text-gray-500 text-sm">Seed {log.config.seed}</span>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {/* Whose hand to show face up */}
+          <select
+            value={viewerId}
+            onChange={(e) => setViewingPlayerId(e.target.value)}
+            className="bg-gray-700 text-white text-sm px-3 py-1.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {gameState.players.map((player) => (
+              <option key={player.id} value={player.id}>
+                {player.name}'s view
+              </option>
+            ))}
+          </select>
+          <Button variant="secondary" size="sm" onClick={handleDownload}>
+            Download Log
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onExit}>
+            Exit
+          </Button>
+        </div>
+      </div>
+
+      {/* Game area */}
+      <div className="flex-1 flex items-center justify-center p-4">
+        <GameCanvas gameState={gameState} currentPlayerId={viewerId} showTurnClock={false} />
+      </div>
+
+      {/* Timeline controls */}
+      <div className="bg-gray-800 px-4 py-3 space-y-2">
+        <div className="text-center text-gray-300 text-sm h-5">
+          {describeEntry(entry, gameState)}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={replay.length}
+          value={position}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setPosition(Number(e.target.value));
+          }}
+          className="w-full accent-purple-500"
+        />
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="secondary" size="sm" onClick={handlePreviousTurn}>
+            ⏮ Turn
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setPosition(Math.max(0, position - 1))}>
+            ◀ Step
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleTogglePlay} className="w-20">
+            {isPlaying && !atEnd ? 'Pause' : 'Play'}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setPosition(Math.min(replay.length, position + 1))}>
+            Step ▶
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleNextTurn}>
+            Turn ⏭
+          </Button>
+          <span className="text-gray-400 text-sm ml-4">
+            {position} / {replay.length}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function describeEntry(entry: GameLogEntry | null, state: GameState): string {
+  if (!entry) return 'Cards dealt';
+  if (entry.kind === 'reshuffle') return 'Draw pile reshuffled';
+  if (entry.kind === 'slap_resolved') return 'Slap race resolved';
+  if (entry.kind === 'vote_closed') return 'Voting closed';
+  if (entry.kind === 'turn_skipped') return 'Turn skipped';
+  if (entry.kind === 'verdict') {
+    const offender = state.players.find((p) => p.id === entry.accusation.offenderId)?.name ?? 'Someone';
+    return `${offender} found ${entry.guilty ? 'guilty' : 'not guilty'} of "${entry.accusation.ruleText}"`;
+  }
+
+  const { action } = entry;
+  const name = state.players.find((p) => p.id === action.playerId)?.name ?? 'Someone';
+  const target = state.players.find((p) => p.id === action.targetPlayerId)?.name;
+
+  switch (action.type) {
+    case 'play_card':
+    case 'jump_in': {
+      const card = state.discardPile.find((c) => c.id === action.cardId);
+      return `${name} played ${card ? getCardDisplayName(card) : 'a card'}`;
+    }
+    case 'draw_card':
+      return `${name} drew`;
+    case 'call_uno':
+      return `${name} called UNO!`;
+    case 'catch_uno':
+      return `${name} caught ${target} without UNO`;
+    case 'slap':
+      return `${name} slapped`;
+    case 'create_custom_rule':
+      return `${name} made a rule: "${action.customRule?.text}"`;
+    case 'vote_rule':
+      return `${name} voted ${action.vote ? 'for' : 'against'} the rule`;
+    case 'report_violation':
+      return `${name} reported ${target} for breaking a rule`;
+    case 'vote_verdict':
+      return `${name} voted ${action.vote ? 'guilty' : 'not guilty'}`;
+    default:
+      return `${name}: ${action.type.replace(/_/g, ' ')}`;
+  }
+}
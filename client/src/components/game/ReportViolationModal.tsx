@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '../common/Button';
+import { isPlayerOut } from 'spicy-uno-shared';
+import type { GameState } from 'spicy-uno-shared';
+
+interface ReportViolationModalProps {
+  gameState: GameState;
+  currentPlayerId: string;
+  onReport: (targetId: string, ruleId: string) => void;
+  onCancel: () => void;
+}
+
+// Accuse someone of breaking an honor-system rule; the rest of the table judges it
+export function ReportViolationModal({ gameState, currentPlayerId, onReport, onCancel }: ReportViolationModalProps) {
+  // The game enforces the other rules itself
+  const honorRules = gameState.customRules.filter((r) => !r.effect);
+  const suspects = gameState.players.filter((p) => p.id !== currentPlayerId && !isPlayerOut(gameState, p.id));
+
+  const [ruleId, setRuleId] = useState(honorRules[0]?.id ?? null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <motion.div
+        className="bg-gray-800 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+      >
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">🚨</div>
+          <h2 className="text-2xl font-bold text-white">Report a Rule Breaker</h2>
+          <p className="text-gray-400 mt-2">Get it wrong and you draw instead!</p>
+        </div>
+
+        <label className="block text-gray-400 text-sm mb-2">Which rule?</label>
+        <div className="space-y-2 mb-4">
+          {honorRules.map((rule) => (
+            <button
+              key={rule.id}
+              className={`w-full flex items-center justify-between text-left px-3 py-2 rounded-lg transition-all ${
+                ruleId === rule.id ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              onClick={() => setRuleId(rule.id)}
+            >
+              <span>{rule.text}</span>
+              <span className="text-sm opacity-75">+{rule.penalty ?? 1}</span>
+            </button>
+          ))}
+        </div>
+
+        <label className="block text-gray-400 text-sm mb-2">Who broke it?</label>
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {suspects.map((player) => (
+            <button
+              key={player.id}
+              className={`py-2 px-3 rounded-lg font-medium transition-all ${
+                targetId === player.id ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+              }`}
+              onClick={() => setTargetId(player.id)}
+            >
+              {player.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="secondary" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            className="flex-1"
+            disabled={!ruleId || !targetId}
+            onClick={() => ruleId && targetId && onReport(targetId, ruleId)}
+          >
+            Report
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
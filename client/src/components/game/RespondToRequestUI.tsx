@@ -1,6 +1,6 @@
 import { motion } from 'framer-motion';
 import { Button } from '../common/Button';
-import type { Player, Card, PendingAction } from '../../types/game.types';
+import type { Player, Card, PendingAction } from 'spicy-uno-shared';
 
 interface RespondToRequestUIProps {
   pendingAction: PendingAction;
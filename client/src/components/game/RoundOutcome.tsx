@@ -0,0 +1,32 @@
+import type { GameState, MatchState } from 'spicy-uno-shared';
+
+interface RoundOutcomeProps {
+  state: GameState;
+  match: MatchState | null;
+}
+
+// Headline for the game over overlay: who won the match, or what the round decided
+export function RoundOutcome({ state, match }: RoundOutcomeProps) {
+  const nameOf = (id: string | null | undefined) => state.players.find((p) => p.id === id)?.name;
+  const lastRound = match?.rounds[match.rounds.length - 1];
+
+  let headline: string;
+  if (!match || match.winnerId) {
+    headline = `${nameOf(match?.winnerId ?? state.winner)} wins!`;
+  } else if (lastRound?.eliminatedId) {
+    headline = `${nameOf(lastRound.eliminatedId)} is knocked out!`;
+  } else if (state.loser) {
+    headline = `${nameOf(state.loser)} was left holding cards!`;
+  } else {
+    headline = `${nameOf(state.winner)} wins the round!`;
+  }
+
+  return (
+    <>
+      <p className="text-2xl text-white mb-2">{headline}</p>
+      {match?.winnerId && state.loser && (
+        <p className="text-gray-400 mb-2">{nameOf(state.loser)} was left holding cards</p>
+      )}
+    </>
+  );
+}
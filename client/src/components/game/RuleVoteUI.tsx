@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '../common/Button';
+import type { Player, PendingAction } from 'spicy-uno-shared';
+
+interface RuleVoteUIProps {
+  pendingAction: PendingAction;
+  players: Player[];
+  voterIds: string[];  // Players voting from this screen (everyone at a hot-seat table)
+  onVote: (playerId: string, vote: boolean) => void;
+}
+
+export function RuleVoteUI({ pendingAction, players, voterIds, onVote }: RuleVoteUIProps) {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const { proposal, votes = {}, deadline } = pendingAction;
+
+  useEffect(() => {
+    if (!deadline) return;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (!proposal) return null;
+
+  const proposer = players.find((p) => p.id === proposal.proposedBy);
+  const stillToVote = voterIds.filter((id) => id !== proposal.proposedBy && votes[id] === undefined);
+  const votesFor = Object.values(votes).filter(Boolean).length;
+  const votesAgainst = Object.values(votes).length - votesFor;
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <motion.div
+        className="bg-gray-800 rounded-2xl p-8 max-w-md w-full mx-4 text-center"
+        initial={{ scale: 0.8, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+      >
+        <div className="text-5xl mb-4">🗳️</div>
+        <h2 className="text-xl font-bold text-white mb-2">
+          {proposer?.name} wants to {proposal.kind === 'add' ? 'add a rule' : 'repeal a rule'}
+        </h2>
+        <p className={`text-lg font-medium mb-4 ${proposal.kind === 'repeal' ? 'text-gray-400 line-through' : 'text-yellow-400'}`}>
+          "{proposal.rule.text}"
+        </p>
+
+        <div className="flex justify-center gap-6 text-sm mb-6">
+          <span className="text-green-400">👍 {votesFor}</span>
+          <span className="text-red-400">👎 {votesAgainst}</span>
+          {deadline && <span className="text-gray-400">⏱ {secondsLeft}s</span>}
+        </div>
+
+        {stillToVote.length === 0 ? (
+          <p className="text-gray-400">Waiting for the others to vote...</p>
+        ) : (
+          <div className="space-y-3">
+            {stillToVote.map((id) => (
+              <div key={id} className="flex items-center gap-3">
+                {voterIds.length > 1 && (
+                  <span className="flex-1 text-left text-white font-medium">
+                    {players.find((p) => p.id === id)?.name}
+                  </span>
+                )}
+                <Button variant="success" className="flex-1" onClick={() => onVote(id, true)}>
+                  For
+                </Button>
+                <Button variant="danger" className="flex-1" onClick={() => onVote(id, false)}>
+                  Against
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
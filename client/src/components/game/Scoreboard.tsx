@@ -0,0 +1,72 @@
+import { describeMatch } from 'spicy-uno-shared';
+import type { MatchState, Player } from 'spicy-uno-shared';
+
+interface ScoreboardProps {
+  match: MatchState;
+  players: Player[];
+  currentPlayerId?: string;
+}
+
+// Running match totals, with what each player was left holding last round.
+// Outside standard mode points count against you, so the lowest total leads.
+export function Scoreboard({ match, players, currentPlayerId }: ScoreboardProps) {
+  const lastRound = match.rounds[match.rounds.length - 1];
+  const isPenalty = match.mode !== 'standard';
+  const standings = match.playerIds
+    .map((id) => ({
+      id,
+      name: players.find((p) => p.id === id)?.name ?? 'Unknown',
+      score: match.scores[id] ?? 0,
+      isOut: match.eliminatedIds.includes(id),
+    }))
+    .sort((a, b) => Number(a.isOut) - Number(b.isOut) || (isPenalty ? a.score - b.score : b.score - a.score));
+
+  const describeLastRound = (id: string) => {
+    if (!lastRound) return null;
+    if (!isPenalty) {
+      return lastRound.winnerId === id ? `+${lastRound.points}` : `${lastRound.handPoints[id] ?? 0} held`;
+    }
+    return `+${lastRound.handPoints[id] ?? 0}`;
+  };
+
+  return (
+    <div className="bg-gray-900/60 rounded-xl p-4 min-w-72">
+      <div className="flex justify-between text-gray-400 text-xs mb-2">
+        <span>After round {match.rounds.length}</span>
+        <span>{describeMatch(match)}</span>
+      </div>
+
+      <div className="space-y-1">
+        {standings.map(({ id, name, score, isOut }) => {
+          const isRoundWinner = lastRound?.winnerId === id;
+
+          return (
+            <div
+              key={id}
+              className={`flex items-center justify-between gap-6 px-3 py-1 rounded-lg text-sm ${
+                id === match.winnerId
+                  ? 'bg-yellow-500/30 text-yellow-200'
+                  : isOut
+                    ? 'text-gray-500 line-through'
+                    : 'text-gray-200'
+              }`}
+            >
+              <span>
+                {name}
+                {id === currentPlayerId && ' (You)'}
+              </span>
+              <span className="flex items-center gap-4 font-mono">
+                {lastRound && !(isOut && lastRound.eliminatedId !== id) && (
+                  <span className={isRoundWinner ? 'text-green-400' : 'text-gray-500'}>
+                    {describeLastRound(id)}
+                  </span>
+                )}
+                <span className="font-bold w-12 text-right">{score}</span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
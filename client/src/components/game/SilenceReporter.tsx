@@ -1,5 +1,5 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Player } from '../../types/game.types';
+import type { Player } from 'spicy-uno-shared';
 
 interface SilenceReporterProps {
   active: boolean;
@@ -52,7 +52,7 @@ export function SilenceReporter({
             </div>
 
             <p className="text-gray-500 text-xs mt-3 text-center">
-              Tap to make them draw a card
+              Tap to put them to a vote
             </p>
           </div>
         </motion.div>
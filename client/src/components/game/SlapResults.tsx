@@ -0,0 +1,59 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Player, SlapResult } from 'spicy-uno-shared';
+
+interface SlapResultsProps {
+  result: SlapResult | null;
+  players: Player[];
+  currentPlayerId: string;
+}
+
+export function SlapResults({ result, players, currentPlayerId }: SlapResultsProps) {
+  // Fastest first, players who never slapped last
+  const reactions = result
+    ? [...result.reactions].sort(
+        (a, b) => (a.reactionMs ?? Infinity) - (b.reactionMs ?? Infinity)
+      )
+    : [];
+
+  return (
+    <AnimatePresence>
+      {result && (
+        <motion.div
+          className="fixed top-20 left-1/2 -translate-x-1/2 z-30"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+        >
+          <div className="bg-gray-800/95 backdrop-blur-sm rounded-xl p-4 shadow-2xl border border-red-500/50 min-w-64">
+            <h3 className="text-white font-bold text-center mb-3">👋 Slap Results</h3>
+
+            <div className="space-y-1">
+              {reactions.map(({ playerId, reactionMs }) => {
+                const player = players.find((p) => p.id === playerId);
+                const isLoser = playerId === result.loserId;
+
+                return (
+                  <div
+                    key={playerId}
+                    className={`flex items-center justify-between gap-6 px-3 py-1 rounded-lg text-sm ${
+                      isLoser ? 'bg-red-600/40 text-red-200' : 'text-gray-300'
+                    }`}
+                  >
+                    <span>
+                      {player?.name ?? 'Unknown'}
+                      {playerId === currentPlayerId && ' (You)'}
+                    </span>
+                    <span className="font-mono">
+                      {reactionMs === null ? 'no slap' : `${reactionMs}ms`}
+                      {isLoser && ' · draws 1'}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
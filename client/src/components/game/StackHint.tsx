@@ -0,0 +1,26 @@
+import { getStackableDrawValues } from 'spicy-uno-shared';
+import type { DrawStackMode, GameState } from 'spicy-uno-shared';
+
+interface StackHintProps {
+  gameState: GameState;
+  stackDrawMode?: DrawStackMode;
+}
+
+// What the player on turn can do about a stacked +2/+4 or skip
+export function StackHint({ gameState, stackDrawMode }: StackHintProps) {
+  const { stackedDrawAmount, stackedSkipCount } = gameState;
+
+  let hint: string | null = null;
+  if (stackedDrawAmount > 0) {
+    const topCard = gameState.discardPile[gameState.discardPile.length - 1];
+    const stackable = getStackableDrawValues(topCard, stackDrawMode).map((v) => (v === 'draw2' ? '+2' : '+4'));
+    hint = `Stack a ${stackable.join(' or ')}, or draw ${stackedDrawAmount}`;
+  } else if (stackedSkipCount > 0) {
+    const others = stackedSkipCount - 1;
+    const alsoSkipped = others > 0 ? ` and the next ${others} ${others === 1 ? 'player' : 'players'}` : '';
+    hint = `Pass it on with a skip, or you${alsoSkipped} get skipped`;
+  }
+
+  if (!hint) return null;
+  return <span className="text-red-400 text-sm font-medium max-w-56 text-center">{hint}</span>;
+}
@@ -0,0 +1,77 @@
+import { motion } from 'framer-motion';
+import { isPlayerOut } from 'spicy-uno-shared';
+import type { GameState } from 'spicy-uno-shared';
+
+interface SwapHandsModalProps {
+  gameState: GameState;
+  currentPlayerId: string;
+  onSelectPlayer: (targetPlayerId: string) => void;
+}
+
+// Seven-O: whoever played the 7 picks a hand to trade for, everyone else waits
+export function SwapHandsModal({ gameState, currentPlayerId, onSelectPlayer }: SwapHandsModalProps) {
+  const swapper = gameState.players.find((p) => p.id === gameState.pendingAction?.targetPlayer);
+  const otherPlayers = gameState.players.filter(
+    (p) => p.id !== currentPlayerId && !isPlayerOut(gameState, p.id)
+  );
+
+  if (swapper?.id !== currentPlayerId) {
+    return (
+      <motion.div
+        className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+      >
+        <div className="bg-gray-800 rounded-xl p-6 text-center">
+          <div className="text-4xl mb-4">🔄</div>
+          <p className="text-white">{swapper?.name} is picking a hand to swap with...</p>
+        </div>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <motion.div
+        className="bg-gray-800 rounded-2xl p-6 max-w-md w-full mx-4 shadow-2xl"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+      >
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">🔄</div>
+          <h2 className="text-2xl font-bold text-white">Swap Hands</h2>
+          <p className="text-gray-400 mt-2">Whose hand do you want?</p>
+        </div>
+
+        <div className="space-y-3">
+          {otherPlayers.map((player) => (
+            <motion.button
+              key={player.id}
+              className="w-full bg-gray-700 hover:bg-gray-600 rounded-xl p-4 flex items-center justify-between transition-colors"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => onSelectPlayer(player.id)}
+            >
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-gray-600 rounded-full flex items-center justify-center text-xl">
+                  👤
+                </div>
+                <div className="text-left">
+                  <div className="text-white font-medium">{player.name}</div>
+                  <div className="text-gray-400 text-sm">
+                    {player.hand.length} card{player.hand.length !== 1 ? 's' : ''}
+                  </div>
+                </div>
+              </div>
+              <div className="text-gray-400">⇄</div>
+            </motion.button>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
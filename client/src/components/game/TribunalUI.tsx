@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '../common/Button';
+import type { Player, PendingAction } from 'spicy-uno-shared';
+
+interface TribunalUIProps {
+  pendingAction: PendingAction;
+  players: Player[];
+  voterIds: string[];  // Players voting from this screen (everyone at a hot-seat table)
+  onVote: (playerId: string, guilty: boolean) => void;
+}
+
+// The rest of the table decides whether a reported player broke the rule
+export function TribunalUI({ pendingAction, players, voterIds, onVote }: TribunalUIProps) {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const { accusation, votes = {}, deadline } = pendingAction;
+
+  useEffect(() => {
+    if (!deadline) return;
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (!accusation) return null;
+
+  const nameOf = (id: string) => players.find((p) => p.id === id)?.name;
+  const stillToVote = voterIds.filter(
+    (id) => id !== accusation.accuserId && id !== accusation.offenderId && votes[id] === undefined
+  );
+  const guiltyVotes = Object.values(votes).filter(Boolean).length;
+  const innocentVotes = Object.values(votes).length - guiltyVotes;
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <motion.div
+        className="bg-gray-800 rounded-2xl p-8 max-w-md w-full mx-4 text-center"
+        initial={{ scale: 0.8, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+      >
+        <div className="text-5xl mb-4">⚖️</div>
+        <h2 className="text-xl font-bold text-white mb-2">
+          {nameOf(accusation.accuserId)} says {nameOf(accusation.offenderId)} broke a rule
+        </h2>
+        <p className="text-lg font-medium text-yellow-400 mb-2">"{accusation.ruleText}"</p>
+        <p className="text-gray-400 text-sm mb-4">
+          Guilty: {nameOf(accusation.offenderId)} draws {accusation.penalty}. Not guilty:{' '}
+          {nameOf(accusation.accuserId)} does.
+        </p>
+
+        <div className="flex justify-center gap-6 text-sm mb-6">
+          <span className="text-red-400">Guilty {guiltyVotes}</span>
+          <span className="text-green-400">Not guilty {innocentVotes}</span>
+          {deadline && <span className="text-gray-400">⏱ {secondsLeft}s</span>}
+        </div>
+
+        {stillToVote.length === 0 ? (
+          <p className="text-gray-400">Waiting for the jury...</p>
+        ) : (
+          <div className="space-y-3">
+            {stillToVote.map((id) => (
+              <div key={id} className="flex items-center gap-3">
+                {voterIds.length > 1 && (
+                  <span className="flex-1 text-left text-white font-medium">{nameOf(id)}</span>
+                )}
+                <Button variant="danger" className="flex-1" onClick={() => onVote(id, true)}>
+                  Guilty
+                </Button>
+                <Button variant="success" className="flex-1" onClick={() => onVote(id, false)}>
+                  Not guilty
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,17 +1,32 @@
 import { useState } from 'react';
 import { Button } from '../common/Button';
-import type { GameConfig } from '../../types/game.types';
+import { loadSavedGame, clearSavedGame, type SavedGame } from '../../stores/gameStore';
+import { DEFAULT_CARD_EFFECTS, GAME_LOG_VERSION, MAX_DRAWS_PER_TURN, isMultiRound } from 'spicy-uno-shared';
+import type { CardEffectMap, DrawStackMode, GameConfig, GameLog, MatchMode, TakebackLimit } from 'spicy-uno-shared';
 
 interface MainMenuProps {
   onStartGame: (config: GameConfig) => void;
   onOnlinePlay?: () => void;
+  onLoadReplay?: (log: GameLog) => void;
+  onResumeGame?: (save: SavedGame) => void;
 }
 
-export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
+export function MainMenu({ onStartGame, onOnlinePlay, onLoadReplay, onResumeGame }: MainMenuProps) {
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(() => loadSavedGame());
   const [playerCount, setPlayerCount] = useState(2);
   const [playerNames, setPlayerNames] = useState(['Player 1', 'Player 2', 'Player 3', 'Player 4']);
   const [gameMode, setGameMode] = useState<'local' | 'ai'>('local');
   const [aiDifficulty, setAiDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [seed, setSeed] = useState('');
+  const [takebacks, setTakebacks] = useState<TakebackLimit>('off');
+  const [turnTimeLimit, setTurnTimeLimit] = useState(0);
+  const [targetScore, setTargetScore] = useState(0);
+  const [matchMode, setMatchMode] = useState<MatchMode>('standard');
+  const [stackDrawMode, setStackDrawMode] = useState<DrawStackMode>('same');
+  const [cardEffects, setCardEffects] = useState<CardEffectMap>(DEFAULT_CARD_EFFECTS);
+  const [ruleLifetime, setRuleLifetime] = useState(1);
+  const [maxDrawsPerTurn, setMaxDrawsPerTurn] = useState(MAX_DRAWS_PER_TURN);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   // Spicy rules toggles
   const [rules, setRules] = useState({
@@ -23,6 +38,12 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
     jumpIn: true,
     unoCall: true,
     offerCard: true,
+    playAfterDraw: false,
+    drawUntilPlayable: false,
+    passAfterDraws: false,
+    challengeDraw4: false,
+    ruleVote: false,
+    ruleRepeal: false,
   });
 
   const handleStartGame = () => {
@@ -31,10 +52,34 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
       playerNames: playerNames.slice(0, playerCount),
       enabledRules: rules,
       aiDifficulty: gameMode === 'ai' ? aiDifficulty : undefined,
+      seed: seed.trim() ? Number(seed) : undefined,
+      takebacks,
+      turnTimeLimit: turnTimeLimit || undefined,
+      targetScore: targetScore || undefined,
+      matchMode,
+      stackDrawMode,
+      cardEffects,
+      ruleLifetime,
+      maxDrawsPerTurn,
     };
     onStartGame(config);
   };
 
+  // Open a log exported from the replay viewer
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file || !onLoadReplay) return;
+    try {
+      const log = JSON.parse(await file.text()) as GameLog;
+      if (log.version !== GAME_LOG_VERSION || !Array.isArray(log.entries)) {
+        setReplayError('Unsupported game log version');
+        return;
+      }
+      onLoadReplay(log);
+    } catch {
+      setReplayError('Not a valid game log');
+    }
+  };
+
   const toggleRule = (rule: keyof typeof rules) => {
     setRules((prev) => ({ ...prev, [rule]: !prev[rule] }));
   };
@@ -50,6 +95,52 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
           <p className="text-gray-400 mt-2">The game with extra heat!</p>
         </div>
 
+        {/* Resume a local game that was left unfinished */}
+        {savedGame && onResumeGame && (
+          <div className="mb-6 bg-gray-700/60 rounded-xl p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h2 className="text-white font-bold">Game in progress</h2>
+                <p className="text-gray-400 text-xs">
+                  Saved {new Date(savedGame.savedAt).toLocaleString()}
+                  {isMultiRound(savedGame.match.state) && ` · Round ${savedGame.match.state.round}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => {
+                    clearSavedGame();
+                    setSavedGame(null);
+                  }}
+                >
+                  Discard
+                </Button>
+                <Button variant="success" size="sm" onClick={() => onResumeGame(savedGame)}>
+                  Resume Game
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {savedGame.snapshot.state.players.map((player, index) => (
+                <div
+                  key={player.id}
+                  className={`flex items-center justify-between bg-gray-800 px-3 py-2 rounded-lg text-sm ${
+                    index === savedGame.snapshot.state.currentPlayerIndex ? 'ring-2 ring-yellow-400' : ''
+                  }`}
+                >
+                  <span className="text-white">
+                    {player.name}
+                    {player.type === 'ai' && <span className="text-gray-500"> (AI)</span>}
+                  </span>
+                  <span className="text-gray-400">{player.hand.length} cards</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Game Mode */}
         <div className="mb-6">
           <label className="block text-gray-300 mb-2 font-medium">Game Mode</label>
@@ -148,27 +239,138 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
           </div>
         )}
 
+        {/* Takebacks */}
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2 font-medium">Takebacks</label>
+          <div className="flex gap-2">
+            {([
+              { limit: 'off', label: 'Not Allowed' },
+              { limit: 'own_last_move', label: 'Own Last Move' },
+              { limit: 'unlimited', label: 'Unlimited' },
+            ] as const).map(({ limit, label }) => (
+              <button
+                key={limit}
+                className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                  takebacks === limit
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                onClick={() => setTakebacks(limit)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Turn timer */}
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2 font-medium">Turn Timer</label>
+          <div className="flex gap-2">
+            {[0, 15, 30, 60].map((seconds) => (
+              <button
+                key={seconds}
+                className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                  turnTimeLimit === seconds
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                onClick={() => setTurnTimeLimit(seconds)}
+              >
+                {seconds ? `${seconds}s` : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* How the match is won */}
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2 font-medium">Victory</label>
+          <div className="flex gap-2">
+            {([
+              ['standard', 'First Out'],
+              ['elimination', 'Elimination'],
+              ['reverse', 'Last One Holding'],
+            ] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                  matchMode === mode
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                onClick={() => setMatchMode(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Match length (elimination runs until one player is left) */}
+        {matchMode !== 'elimination' && (
+          <div className="mb-6">
+            <label className="block text-gray-300 mb-2 font-medium">Play To</label>
+            <div className="flex gap-2">
+              {[0, 200, 500].map((score) => (
+                <button
+                  key={score}
+                  className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                    targetScore === score
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setTargetScore(score)}
+                >
+                  {score ? `${score} pts` : 'One Game'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Seed (reproduce a game from a bug report) */}
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2 font-medium">Seed (optional)</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value.replace(/[^0-9]/g, ''))}
+            className="w-full bg-gray-700 text-white px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            placeholder="Random"
+          />
+        </div>
+
         {/* Spicy Rules */}
         <div className="mb-8">
           <label className="block text-gray-300 mb-3 font-medium">Spicy Rules</label>
           <div className="grid grid-cols-2 gap-2">
             {[
-              { key: 'silence', label: '7 = Silence', emoji: '🤫' },
-              { key: 'customRule', label: '0 = Custom Rule', emoji: '📝' },
+              { key: 'silence', label: 'Silence', emoji: '🤫' },
+              { key: 'customRule', label: 'Custom Rules', emoji: '📝' },
               { key: 'stackDraw', label: 'Stack +2/+4', emoji: '📚' },
               { key: 'stackSkip', label: 'Stack Skips', emoji: '⏭️' },
-              { key: 'slap', label: '5 = Slap', emoji: '👋' },
+              { key: 'slap', label: 'Slap', emoji: '👋' },
               { key: 'jumpIn', label: 'Jump-in', emoji: '🦘' },
               { key: 'unoCall', label: 'Must Say UNO', emoji: '📢' },
               { key: 'offerCard', label: 'Offer Cards', emoji: '🎁' },
+              { key: 'playAfterDraw', label: 'Play After Draw', emoji: '🃏' },
+              { key: 'drawUntilPlayable', label: 'Draw Till Playable', emoji: '🔁' },
+              { key: 'passAfterDraws', label: 'Pass After Draws', emoji: '✋' },
+              { key: 'challengeDraw4', label: 'Challenge +4', emoji: '⚖️' },
+              { key: 'ruleVote', label: 'Vote On Rules', emoji: '🗳️' },
+              { key: 'ruleRepeal', label: 'Repeal Rules', emoji: '✂️' },
             ].map(({ key, label, emoji }) => (
               <button
                 key={key}
-                className={`flex items-center gap-2 py-2 px-3 rounded-lg font-medium text-sm transition-all ${
+                className={`flex items-center gap-2 py-2 px-3 rounded-lg font-medium text-sm transition-all disabled:opacity-40 ${
                   rules[key as keyof typeof rules]
                     ? 'bg-green-600/80 text-white'
                     : 'bg-gray-700/50 text-gray-400'
                 }`}
+                // Giving up only comes into it when drawing until playable
+                disabled={key === 'passAfterDraws' && !rules.drawUntilPlayable}
                 onClick={() => toggleRule(key as keyof typeof rules)}
               >
                 <span>{emoji}</span>
@@ -179,6 +381,109 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
           </div>
         </div>
 
+        {/* Which spicy rule each number card sets off */}
+        <div className="mb-6">
+          <label className="block text-gray-300 mb-2 font-medium">Number Cards</label>
+          <div className="space-y-2">
+            {[0, 5, 7].map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <span className="w-6 text-white font-bold text-center">{value}</span>
+                {([
+                  ['none', 'None'],
+                  ['silence', 'Silence'],
+                  ['custom_rule', 'Rule'],
+                  ['slap', 'Slap'],
+                  ['swap_hands', 'Swap'],
+                  ['rotate_hands', 'Rotate'],
+                ] as const).map(([effect, label]) => (
+                  <button
+                    key={effect}
+                    className={`flex-1 py-1 rounded-lg text-xs font-medium transition-all ${
+                      (cardEffects[value] ?? 'none') === effect
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                    onClick={() => setCardEffects((prev) => ({ ...prev, [value]: effect }))}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* What stacks on a +2/+4 */}
+        {rules.stackDraw && (
+          <div className="mb-6">
+            <label className="block text-gray-300 mb-2 font-medium">Draw Stacking</label>
+            <div className="flex gap-2">
+              {([
+                ['same', 'Same Card'],
+                ['draw2_on_draw4', '+2 on +4'],
+                ['draw4_on_draw2', '+4 on +2'],
+                ['any', 'Any'],
+              ] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                    stackDrawMode === mode
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setStackDrawMode(mode)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* How many cards to draw before giving up */}
+        {rules.drawUntilPlayable && rules.passAfterDraws && (
+          <div className="mb-6">
+            <label className="block text-gray-300 mb-2 font-medium">Give Up After</label>
+            <div className="flex gap-2">
+              {[1, 2, 3, 5].map((draws) => (
+                <button
+                  key={draws}
+                  className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                    maxDrawsPerTurn === draws
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setMaxDrawsPerTurn(draws)}
+                >
+                  {draws} {draws === 1 ? 'Draw' : 'Draws'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* How many rounds of a match a custom rule stays in force */}
+        {rules.customRule && (matchMode === 'elimination' || targetScore > 0) && (
+          <div className="mb-6">
+            <label className="block text-gray-300 mb-2 font-medium">Custom Rules Last</label>
+            <div className="flex gap-2">
+              {[1, 2, 3, 5].map((rounds) => (
+                <button
+                  key={rounds}
+                  className={`flex-1 py-2 px-4 rounded-lg font-medium transition-all ${
+                    ruleLifetime === rounds
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  onClick={() => setRuleLifetime(rounds)}
+                >
+                  {rounds} {rounds === 1 ? 'Round' : 'Rounds'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Start Button */}
         <Button
           variant="success"
@@ -188,6 +493,22 @@ export function MainMenu({ onStartGame, onOnlinePlay }: MainMenuProps) {
         >
           Start Game
         </Button>
+
+        {/* Load Replay */}
+        {onLoadReplay && (
+          <div className="mt-4 text-center">
+            <label className="text-gray-400 hover:text-white text-sm cursor-pointer underline">
+              Load a replay...
+              <input
+                type="file"
+                accept="application/json"
+                className="hidden"
+                onChange={(e) => handleReplayFile(e.target.files?.[0])}
+              />
+            </label>
+            {replayError && <p className="text-red-400 text-sm mt-1">{replayError}</p>}
+          </div>
+        )}
       </div>
     </div>
   );
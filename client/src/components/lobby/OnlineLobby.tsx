@@ -1,8 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '../common/Button';
-import { socketService, type LobbyPlayer, type RoomConfig } from '../../multiplayer/socketService';
-import type { GameState } from '../../types/game.types';
+import { socketService, OutdatedClientError } from '../../multiplayer/socketService';
+import { DEFAULT_CARD_EFFECTS, MAX_DRAWS_PER_TURN } from 'spicy-uno-shared';
+import type {
+  GameState,
+  LobbyPlayer,
+  RoomConfig,
+  RoomSettings,
+  RejoinResult,
+  Spectator,
+} from 'spicy-uno-shared';
 
 interface OnlineLobbyProps {
   onBack: () => void;
@@ -18,7 +26,11 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
   const [roomCode, setRoomCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [savedSession, setSavedSession] = useState(() => socketService.getSavedSession());
   const [players, setPlayers] = useState<LobbyPlayer[]>([]);
+  const [spectators, setSpectators] = useState<Spectator[]>([]);
+  const [locked, setLocked] = useState(false);
   const [rules, setRules] = useState<RoomConfig['enabledRules']>({
     silence: true,
     customRule: true,
@@ -28,27 +40,69 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
     jumpIn: true,
     unoCall: true,
     offerCard: true,
+    playAfterDraw: false,
+    drawUntilPlayable: false,
+    passAfterDraws: false,
+    challengeDraw4: false,
+    ruleVote: false,
+    ruleRepeal: false,
   });
+  const [settings, setSettings] = useState<RoomSettings>({
+    disconnectPolicy: 'skip',
+    botDifficulty: 'medium',
+    turnTimeLimit: 0,
+    stackDrawMode: 'same',
+    cardEffects: DEFAULT_CARD_EFFECTS,
+    targetScore: 0,
+    matchMode: 'standard',
+    ruleLifetime: 1,
+    maxDrawsPerTurn: MAX_DRAWS_PER_TURN,
+  });
+
+  // Pick up where we left off after a rejoin: back into the game, or the waiting room
+  const applyRejoin = useCallback((result: RejoinResult) => {
+    if (result.state) {
+      onGameStart(result.state, result.playerId);
+      return;
+    }
+    setPlayers(result.players);
+    setLocked(result.locked);
+    const { enabledRules, ...roomSettings } = result.config;
+    setRules(enabledRules);
+    setSettings(roomSettings);
+    setLobbyState('waiting');
+  }, [onGameStart]);
 
   // Set up socket callbacks
   useEffect(() => {
     socketService.setCallbacks({
       onPlayersChanged: (newPlayers) => setPlayers(newPlayers),
+      onSpectatorsChanged: (newSpectators) => setSpectators(newSpectators),
       onRulesUpdated: (newRules) => setRules(newRules),
+      onSettingsUpdated: (newSettings) => setSettings(newSettings),
+      onHostChanged: (_hostId, newPlayers) => setPlayers(newPlayers),
+      onRoomLockChanged: (isLocked) => setLocked(isLocked),
+      onKicked: (banned) => {
+        setSpectators([]);
+        setLobbyState('menu');
+        setError(banned ? 'You were banned from the room' : 'The host removed you from the room');
+      },
       onGameStarted: (state, playerId) => {
         onGameStart(state, playerId);
       },
       onError: (message) => setError(message),
       onDisconnected: () => {
+        setIsReconnecting(false);
         setLobbyState('connect');
         setError('Disconnected from server');
       },
+      onReconnecting: () => setIsReconnecting(true),
+      onReconnected: (result) => {
+        setIsReconnecting(false);
+        applyRejoin(result);
+      },
     });
-
-    return () => {
-      socketService.disconnect();
-    };
-  }, [onGameStart]);
+  }, [onGameStart, applyRejoin]);
 
   const handleConnect = async () => {
     setError(null);
@@ -57,7 +111,27 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
       await socketService.connect(serverUrl);
       setLobbyState('menu');
     } catch (err) {
-      setError('Could not connect to server. Make sure the server is running.');
+      setError(
+        err instanceof OutdatedClientError
+          ? err.message
+          : 'Could not connect to server. Make sure the server is running.'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRejoin = async () => {
+    if (!savedSession) return;
+    setError(null);
+    setIsLoading(true);
+    try {
+      await socketService.connect(savedSession.serverUrl);
+      applyRejoin(await socketService.rejoinRoom(savedSession));
+    } catch (err) {
+      socketService.disconnect();
+      setSavedSession(null);
+      setError(err instanceof Error ? err.message : 'Could not rejoin the game');
     } finally {
       setIsLoading(false);
     }
@@ -94,7 +168,11 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
     setError(null);
     setIsLoading(true);
     try {
-      await socketService.joinRoom(roomCode.trim().toUpperCase(), playerName.trim());
+      const result = await socketService.joinRoom(roomCode.trim().toUpperCase(), playerName.trim());
+      // The host may have changed the rules already
+      const { enabledRules, ...roomSettings } = result.config;
+      setRules(enabledRules);
+      setSettings(roomSettings);
       setLobbyState('waiting');
     } catch (err: any) {
       setError(err.message);
@@ -103,6 +181,36 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
     }
   };
 
+  const handleSpectateRoom = async () => {
+    if (!playerName.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+    if (!roomCode.trim()) {
+      setError('Please enter room code');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+    try {
+      const result = await socketService.spectateRoom(roomCode.trim().toUpperCase(), playerName.trim());
+      // Games already underway open straight onto the table
+      if (result.state) {
+        onGameStart(result.state, result.spectatorId);
+        return;
+      }
+      setPlayers(result.players);
+      const { enabledRules, ...roomSettings } = result.config;
+      setRules(enabledRules);
+      setSettings(roomSettings);
+      setLobbyState('waiting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not spectate room');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleToggleReady = () => {
     socketService.toggleReady();
   };
@@ -118,8 +226,29 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
     socketService.updateRules(newRules);
   };
 
+  const handleSettingChange = (change: Partial<RoomSettings>) => {
+    if (!socketService.isHost) return;
+    setSettings({ ...settings, ...change });
+    socketService.updateSettings(change);
+  };
+
+  const handleKick = (player: LobbyPlayer, ban: boolean) => {
+    if (!socketService.isHost) return;
+    const verb = ban ? 'Ban' : 'Kick';
+    if (!window.confirm(`${verb} ${player.name}?`)) return;
+    socketService.kickPlayer(player.id, ban);
+  };
+
+  const handleToggleLock = () => {
+    if (!socketService.isHost) return;
+    setLocked(!locked);
+    socketService.setRoomLocked(!locked);
+  };
+
   const handleBack = useCallback(() => {
     socketService.disconnect();
+    setSpectators([]);
+    setLocked(false);
     if (lobbyState === 'waiting') {
       setLobbyState('menu');
     } else if (lobbyState === 'create' || lobbyState === 'join') {
@@ -165,6 +294,17 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
                 <p className="text-red-400 text-sm text-center">{error}</p>
               )}
 
+              {savedSession && (
+                <Button
+                  variant="success"
+                  onClick={handleRejoin}
+                  disabled={isLoading}
+                  className="w-full"
+                >
+                  Rejoin Room {savedSession.code}
+                </Button>
+              )}
+
               <div className="flex gap-3">
                 <Button variant="secondary" onClick={onBack} className="flex-1">
                   Back
@@ -239,6 +379,15 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
                 Join Room
               </Button>
 
+              <Button
+                variant="secondary"
+                onClick={handleSpectateRoom}
+                disabled={!playerName.trim() || !roomCode.trim() || isLoading}
+                className="w-full"
+              >
+                Watch Room
+              </Button>
+
               <Button variant="secondary" onClick={handleBack} className="w-full">
                 Back
               </Button>
@@ -258,7 +407,17 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
               >
                 {socketService.roomCode}
               </motion.div>
-              <p className="text-gray-500 text-sm mt-2">Share this code with friends</p>
+              <p className="text-gray-500 text-sm mt-2">
+                {locked ? '🔒 Room is locked - nobody new can join' : 'Share this code with friends'}
+              </p>
+              {socketService.isHost && (
+                <button
+                  onClick={handleToggleLock}
+                  className="mt-2 px-3 py-1 rounded-lg text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+                >
+                  {locked ? 'Unlock Room' : 'Lock Room'}
+                </button>
+              )}
             </div>
 
             {/* Players List */}
@@ -272,18 +431,64 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
                   }`}
                 >
                   <div className="flex items-center gap-3">
+                    {player.isHost && <span title="Host">👑</span>}
                     <span className="text-white font-medium">{player.name}</span>
                     {player.id === socketService.playerId && (
                       <span className="text-xs text-purple-400">(You)</span>
                     )}
                   </div>
-                  <span className={`text-sm ${player.ready ? 'text-green-400' : 'text-gray-500'}`}>
-                    {player.ready ? 'Ready' : 'Not Ready'}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-sm ${player.ready ? 'text-green-400' : 'text-gray-500'}`}>
+                      {player.connected === false ? 'Reconnecting...' : player.ready ? 'Ready' : 'Not Ready'}
+                    </span>
+                    {socketService.isHost && !player.isHost && (
+                      <>
+                        <button
+                          onClick={() => socketService.transferHost(player.id)}
+                          className="px-2 py-0.5 rounded text-xs bg-gray-600 text-gray-200 hover:bg-gray-500"
+                          title="Make host"
+                        >
+                          👑
+                        </button>
+                        <button
+                          onClick={() => handleKick(player, false)}
+                          className="px-2 py-0.5 rounded text-xs bg-gray-600 text-gray-200 hover:bg-gray-500"
+                        >
+                          Kick
+                        </button>
+                        <button
+                          onClick={() => handleKick(player, true)}
+                          className="px-2 py-0.5 rounded text-xs bg-red-700 text-white hover:bg-red-600"
+                        >
+                          Ban
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
 
+            {/* Spectators List */}
+            {spectators.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Spectators ({spectators.length})</h3>
+                <div className="flex flex-wrap gap-2">
+                  {spectators.map((spectator) => (
+                    <span
+                      key={spectator.id}
+                      className="bg-gray-700 text-gray-300 rounded-full px-3 py-1 text-sm"
+                    >
+                      {spectator.name}
+                      {spectator.id === socketService.playerId && (
+                        <span className="text-xs text-purple-400"> (You)</span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Rules (host only) */}
             {socketService.isHost && (
               <div className="mb-6">
@@ -293,7 +498,9 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
                     <button
                       key={key}
                       onClick={() => handleRuleToggle(key as keyof typeof rules)}
-                      className={`px-3 py-2 rounded-lg text-sm ${
+                      // Giving up only comes into it when drawing until playable
+                      disabled={key === 'passAfterDraws' && !rules.drawUntilPlayable}
+                      className={`px-3 py-2 rounded-lg text-sm disabled:opacity-40 ${
                         enabled
                           ? 'bg-purple-600 text-white'
                           : 'bg-gray-700 text-gray-400'
@@ -306,19 +513,248 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
               </div>
             )}
 
+            {/* Which spicy rule each number card sets off (host only) */}
+            {socketService.isHost && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Number Cards</h3>
+                <div className="space-y-2">
+                  {[0, 5, 7].map((value) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <span className="w-6 text-white font-bold text-center">{value}</span>
+                      {([
+                        ['none', 'None'],
+                        ['silence', 'Silence'],
+                        ['custom_rule', 'Rule'],
+                        ['slap', 'Slap'],
+                        ['swap_hands', 'Swap'],
+                        ['rotate_hands', 'Rotate'],
+                      ] as const).map(([effect, label]) => (
+                        <button
+                          key={effect}
+                          onClick={() =>
+                            handleSettingChange({ cardEffects: { ...settings.cardEffects, [value]: effect } })
+                          }
+                          className={`flex-1 py-1 rounded-lg text-xs ${
+                            (settings.cardEffects[value] ?? 'none') === effect
+                              ? 'bg-purple-600 text-white'
+                              : 'bg-gray-700 text-gray-400'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* What stacks on a +2/+4 (host only) */}
+            {socketService.isHost && rules.stackDraw && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Draw Stacking</h3>
+                <div className="flex gap-2">
+                  {([
+                    ['same', 'Same Card'],
+                    ['draw2_on_draw4', '+2 on +4'],
+                    ['draw4_on_draw2', '+4 on +2'],
+                    ['any', 'Any'],
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleSettingChange({ stackDrawMode: mode })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.stackDrawMode === mode
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Turn timer (host only) */}
+            {socketService.isHost && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Turn Timer</h3>
+                <div className="flex gap-2">
+                  {[0, 15, 30, 60].map((seconds) => (
+                    <button
+                      key={seconds}
+                      onClick={() => handleSettingChange({ turnTimeLimit: seconds })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.turnTimeLimit === seconds
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {seconds ? `${seconds}s` : 'Off'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* How the match is won (host only) */}
+            {socketService.isHost && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Victory</h3>
+                <div className="flex gap-2">
+                  {([
+                    ['standard', 'First Out'],
+                    ['elimination', 'Elimination'],
+                    ['reverse', 'Last One Holding'],
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleSettingChange({ matchMode: mode })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.matchMode === mode
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Match length (host only; elimination runs until one player is left) */}
+            {socketService.isHost && settings.matchMode !== 'elimination' && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Play To</h3>
+                <div className="flex gap-2">
+                  {[0, 200, 500].map((score) => (
+                    <button
+                      key={score}
+                      onClick={() => handleSettingChange({ targetScore: score })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.targetScore === score
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {score ? `${score} pts` : 'One Game'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* How many cards to draw before giving up (host only) */}
+            {socketService.isHost && rules.drawUntilPlayable && rules.passAfterDraws && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Give Up After</h3>
+                <div className="flex gap-2">
+                  {[1, 2, 3, 5].map((draws) => (
+                    <button
+                      key={draws}
+                      onClick={() => handleSettingChange({ maxDrawsPerTurn: draws })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.maxDrawsPerTurn === draws
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {draws} {draws === 1 ? 'Draw' : 'Draws'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* How many rounds of a match a custom rule stays in force (host only) */}
+            {socketService.isHost && rules.customRule && (settings.matchMode === 'elimination' || settings.targetScore > 0) && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">Custom Rules Last</h3>
+                <div className="flex gap-2">
+                  {[1, 2, 3, 5].map((rounds) => (
+                    <button
+                      key={rounds}
+                      onClick={() => handleSettingChange({ ruleLifetime: rounds })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm ${
+                        settings.ruleLifetime === rounds
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {rounds} {rounds === 1 ? 'Round' : 'Rounds'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Disconnect policy (host only) */}
+            {socketService.isHost && (
+              <div className="mb-6">
+                <h3 className="text-gray-400 text-sm mb-2">If Someone Disconnects</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { policy: 'skip', label: 'Skip Their Turns' },
+                    { policy: 'bot', label: 'Bot Plays for Them' },
+                  ] as const).map(({ policy, label }) => (
+                    <button
+                      key={policy}
+                      onClick={() => handleSettingChange({ disconnectPolicy: policy })}
+                      className={`px-3 py-2 rounded-lg text-sm ${
+                        settings.disconnectPolicy === policy
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {settings.disconnectPolicy === 'bot' && (
+                  <div className="flex gap-2 mt-2">
+                    {(['easy', 'medium', 'hard'] as const).map((diff) => (
+                      <button
+                        key={diff}
+                        onClick={() => handleSettingChange({ botDifficulty: diff })}
+                        className={`flex-1 px-3 py-1 rounded-lg text-sm capitalize ${
+                          settings.botDifficulty === diff
+                            ? 'bg-orange-600 text-white'
+                            : 'bg-gray-700 text-gray-400'
+                        }`}
+                      >
+                        {diff}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {error && (
               <p className="text-red-400 text-sm text-center mb-4">{error}</p>
             )}
 
+            {isReconnecting && (
+              <p className="text-yellow-400 text-sm text-center mb-4">Connection lost, reconnecting...</p>
+            )}
+
             {/* Actions */}
             <div className="space-y-3">
-              <Button
-                variant={currentPlayer?.ready ? 'secondary' : 'success'}
-                onClick={handleToggleReady}
-                className="w-full"
-              >
-                {currentPlayer?.ready ? 'Not Ready' : "I'm Ready!"}
-              </Button>
+              {socketService.isSpectator ? (
+                <p className="text-gray-400 text-sm text-center">
+                  You're watching. The game will appear when the host starts it.
+                </p>
+              ) : (
+                <Button
+                  variant={currentPlayer?.ready ? 'secondary' : 'success'}
+                  onClick={handleToggleReady}
+                  className="w-full"
+                >
+                  {currentPlayer?.ready ? 'Not Ready' : "I'm Ready!"}
+                </Button>
+              )}
 
               {socketService.isHost && (
                 <Button
@@ -344,14 +780,20 @@ export function OnlineLobby({ onBack, onGameStart }: OnlineLobbyProps) {
 
 function formatRuleName(key: string): string {
   const names: Record<string, string> = {
-    silence: '7 = Silence',
-    customRule: '0 = Custom',
+    silence: 'Silence',
+    customRule: 'Custom Rules',
     stackDraw: 'Stack +2/+4',
     stackSkip: 'Stack Skips',
-    slap: '5 = Slap',
+    slap: 'Slap',
     jumpIn: 'Jump In',
     unoCall: 'Call UNO',
     offerCard: 'Offer Cards',
+    playAfterDraw: 'Play After Draw',
+    drawUntilPlayable: 'Draw Till Playable',
+    passAfterDraws: 'Pass After Draws',
+    challengeDraw4: 'Challenge +4',
+    ruleVote: 'Vote On Rules',
+    ruleRepeal: 'Repeal Rules',
   };
   return names[key] || key;
 }
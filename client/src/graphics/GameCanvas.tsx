@@ -1,5 +1,6 @@
 import { useRef, useEffect, useCallback } from 'react';
-import type { GameState, Card } from '../types/game.types';
+import { isPlayerOut } from 'spicy-uno-shared';
+import type { GameState, Card } from 'spicy-uno-shared';
 import { renderCard, CARD_WIDTH, CARD_HEIGHT } from './renderers/CardRenderer';
 import { AnimationEngine } from './animations/AnimationEngine';
 
@@ -9,6 +10,8 @@ interface GameCanvasProps {
   onCardClick?: (cardId: string) => void;
   onDeckClick?: () => void;
   validMoves?: string[];
+  showTurnClock?: boolean;
+  clockOffset?: number; // Milliseconds the clock the deadlines are on runs ahead of ours
 }
 
 interface CardPosition {
@@ -26,6 +29,8 @@ export function GameCanvas({
   onCardClick,
   onDeckClick,
   validMoves = [],
+  showTurnClock = true,
+  clockOffset = 0,
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationEngineRef = useRef<AnimationEngine>(new AnimationEngine());
@@ -201,12 +206,20 @@ export function GameCanvas({
       ctx.font = '14px Arial';
       ctx.textAlign = 'center';
       ctx.fillText(player.name, 0, -CARD_HEIGHT / 2 - 20);
-      ctx.fillText(`(${cardCount} cards)`, 0, -CARD_HEIGHT / 2 - 5);
+      ctx.fillText(
+        player.isEliminated ? '(knocked out)' : isPlayerOut(gameState, player.id) ? '(out)' : `(${cardCount} cards)`,
+        0,
+        -CARD_HEIGHT / 2 - 5
+      );
 
-      // Highlight current player
+      // Highlight current player (with their countdown when turns are timed)
       if (gameState.players[gameState.currentPlayerIndex].id === player.id) {
-        ctx.fillStyle = '#FFD700';
-        ctx.fillText('◆', 0, -CARD_HEIGHT / 2 - 35);
+        if (showTurnClock && isTurnTimed(gameState)) {
+          drawTurnClock(ctx, 0, -CARD_HEIGHT / 2 - 45, gameState, Date.now() + clockOffset);
+        } else {
+          ctx.fillStyle = '#FFD700';
+          ctx.fillText('◆', 0, -CARD_HEIGHT / 2 - 35);
+        }
       }
 
       ctx.restore();
@@ -246,7 +259,8 @@ export function GameCanvas({
 
       const isValid = validMoves.includes(card.id);
       const isHovered = hoveredCardRef.current === card.id;
-      const yOffset = isHovered ? -30 : 0;
+      const isJustDrawn = card.id === gameState.drawnCardId; // Playable straight away (playAfterDraw)
+      const yOffset = isHovered ? -30 : isJustDrawn ? -15 : 0;
       const scaleBoost = isHovered ? 1.15 : 1;
 
       renderCard(ctx, card, {
@@ -255,7 +269,7 @@ export function GameCanvas({
         rotation: pos.rotation,
         scale: pos.scale * scaleBoost,
         highlighted: isValid,
-        glowColor: isValid ? '#FFD700' : undefined,
+        glowColor: isJustDrawn ? '#00E5FF' : isValid ? '#FFD700' : undefined,
       });
     });
 
@@ -274,6 +288,10 @@ export function GameCanvas({
       if (gameState.players[gameState.currentPlayerIndex].id === currentPlayerId) {
         ctx.fillStyle = '#FFD700';
         ctx.fillText('Your Turn!', canvas.width / 2, canvas.height - CARD_HEIGHT - 80);
+
+        if (showTurnClock && isTurnTimed(gameState)) {
+          drawTurnClock(ctx, canvas.width / 2 - 75, canvas.height - CARD_HEIGHT - 85, gameState, Date.now() + clockOffset);
+        }
       }
     }
 
@@ -289,6 +307,18 @@ export function GameCanvas({
       );
     }
 
+    // Draw stacked skips if any
+    if (gameState.stackedSkipCount > 0) {
+      ctx.fillStyle = '#FF4444';
+      ctx.font = 'bold 24px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(
+        `⏭️ ×${gameState.stackedSkipCount} skips stacked!`,
+        centerX,
+        centerY + CARD_HEIGHT / 2 + 30
+      );
+    }
+
     // Draw silence mode indicator
     if (gameState.silenceMode) {
       ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
@@ -301,7 +331,7 @@ export function GameCanvas({
 
     // Request next frame
     requestAnimationFrame(render);
-  }, [gameState, currentPlayerId, hand, validMoves, getHandPositions]);
+  }, [gameState, currentPlayerId, hand, validMoves, getHandPositions, showTurnClock, clockOffset]);
 
   // Handle mouse move
   const handleMouseMove = useCallback(
@@ -440,3 +470,41 @@ export function GameCanvas({
     />
   );
 }
+
+// Whether the player on turn is against the clock - deciding on a Wild Draw Four included
+function isTurnTimed(gameState: GameState): boolean {
+  const { phase, turnDeadline } = gameState;
+  return turnDeadline !== null && (phase === 'playing' || phase === 'draw4_challenge');
+}
+
+// Countdown ring showing how much of the active player's turn is left, as of `now`
+function drawTurnClock(ctx: CanvasRenderingContext2D, x: number, y: number, gameState: GameState, now: number) {
+  if (gameState.turnDeadline === null) return;
+
+  const total = gameState.turnDeadline - gameState.turnStartTime;
+  const remaining = Math.max(0, gameState.turnDeadline - now);
+  const fraction = total > 0 ? remaining / total : 0;
+  const radius = 14;
+
+  ctx.save();
+  ctx.lineWidth = 4;
+
+  // Track
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Time left, turning red for the last quarter
+  ctx.strokeStyle = fraction > 0.25 ? '#FFD700' : '#FF4444';
+  ctx.beginPath();
+  ctx.arc(x, y, radius, -Math.PI / 2, -Math.PI / 2 + fraction * Math.PI * 2);
+  ctx.stroke();
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = 'bold 11px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(Math.ceil(remaining / 1000)), x, y);
+  ctx.restore();
+}
@@ -1,4 +1,4 @@
-import type { Card, CardColor } from '../../types/game.types';
+import type { Card, CardColor } from 'spicy-uno-shared';
 
 export const CARD_WIDTH = 100;
 export const CARD_HEIGHT = 150;
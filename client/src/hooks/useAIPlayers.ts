@@ -1,7 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { AIPlayer, type AIDifficulty } from '../ai/AIPlayer';
+import { AIPlayer, createSeededRandom, deriveSeed, type AIDifficulty, type GameEngine } from 'spicy-uno-shared';
 import { useGameStore } from '../stores/gameStore';
-import type { GameState } from '../types/game.types';
+import type { GameState } from 'spicy-uno-shared';
 
 interface UseAIPlayersOptions {
   enabled: boolean;
@@ -10,6 +10,7 @@ interface UseAIPlayersOptions {
 
 export function useAIPlayers({ enabled, difficulty }: UseAIPlayersOptions) {
   const aiPlayersRef = useRef<Map<string, AIPlayer>>(new Map());
+  const aiEngineRef = useRef<GameEngine | null>(null);  // The engine (round) the AI players were made for
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const { gameState, engine } = useGameStore();
@@ -21,10 +22,19 @@ export function useAIPlayers({ enabled, difficulty }: UseAIPlayersOptions) {
       return;
     }
 
-    // Create AI players for non-human players
+    // Every round (and every new match) deals a fresh engine with its own seed,
+    // config and seating, so the AI players start over with it
+    if (aiEngineRef.current !== engine) {
+      aiPlayersRef.current.clear();
+      aiEngineRef.current = engine;
+    }
+
+    // Create AI players for non-human players, each with its own stream of the game seed
+    const seed = engine?.getSeed();
     gameState.players.forEach((player) => {
       if (player.type === 'ai' && !aiPlayersRef.current.has(player.id)) {
-        aiPlayersRef.current.set(player.id, new AIPlayer(player.id, difficulty));
+        const random = seed !== undefined ? createSeededRandom(deriveSeed(seed, player.id)) : Math.random;
+        aiPlayersRef.current.set(player.id, new AIPlayer(player.id, difficulty, random, engine?.getConfig()));
       }
     });
 
@@ -34,7 +44,7 @@ export function useAIPlayers({ enabled, difficulty }: UseAIPlayersOptions) {
         aiPlayersRef.current.delete(id);
       }
     });
-  }, [enabled, gameState?.players, difficulty]);
+  }, [enabled, gameState?.players, difficulty, engine]);
 
   // Process AI turns
   const processAITurn = useCallback(
@@ -89,11 +99,11 @@ export function useAIPlayers({ enabled, difficulty }: UseAIPlayersOptions) {
     // Process AI turn if it's an AI's turn
     processAITurn(gameState);
 
-    // Handle slap race for all AI players
-    if (gameState.phase === 'slap_race') {
+    // Handle slap races and votes for all AI players
+    if (gameState.phase === 'slap_race' || gameState.phase === 'rule_vote' || gameState.phase === 'tribunal') {
       aiPlayersRef.current.forEach((aiPlayer) => {
         const decision = aiPlayer.makeDecision(gameState);
-        if (decision && decision.action.type === 'slap') {
+        if (decision && ['slap', 'vote_rule', 'vote_verdict'].includes(decision.action.type)) {
           setTimeout(() => {
             engine?.dispatch(decision.action);
           }, decision.delay);
@@ -1,51 +1,135 @@
 import { io, Socket } from 'socket.io-client';
-import type { GameState, GameAction } from '../types/game.types';
+import {
+  PROTOCOL_VERSION,
+  applyPatch,
+  type PatchOp,
+  type StateSnapshot,
+  type GameState,
+  type GameAction,
+  type SlapResult,
+  type ActionAck,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type HandshakeAuth,
+  type ProtocolMismatchDetails,
+  type LobbyPlayer,
+  type RoomConfig,
+  type RoomSettings,
+  type RejoinResult,
+  type Spectator,
+  type SpectateResult,
+  type MatchState,
+} from 'spicy-uno-shared';
 
-export interface LobbyPlayer {
-  id: string;
-  name: string;
-  ready: boolean;
+// Everything needed to reclaim a seat after a dropped connection or a refresh
+export interface OnlineSession {
+  serverUrl: string;
+  code: string;
+  playerId: string;
+  reconnectToken: string;
 }
 
-export interface RoomConfig {
-  enabledRules: {
-    silence: boolean;
-    customRule: boolean;
-    stackDraw: boolean;
-    stackSkip: boolean;
-    slap: boolean;
-    jumpIn: boolean;
-    unoCall: boolean;
-    offerCard: boolean;
-  };
+// Thrown when the server speaks a different protocol version than this build
+export class OutdatedClientError extends Error {
+  constructor(details: ProtocolMismatchDetails) {
+    super(
+      details.serverVersion > (details.clientVersion ?? 0)
+        ? 'This page is out of date. Refresh to load the latest version of the game.'
+        : 'The server is running an older version of the game than this page.'
+    );
+    this.name = 'OutdatedClientError';
+  }
+}
+
+// sessionStorage survives a refresh but not closing the tab
+const SESSION_KEY = 'spicy-uno:online-session';
+const CLIENT_ID_KEY = 'spicy-uno:client-id';
+
+// Identifies this tab to the server across reconnects (and to room bans)
+function getClientId(): string {
+  let clientId = sessionStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    sessionStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
 }
 
 type SocketCallback = {
   onPlayersChanged?: (players: LobbyPlayer[]) => void;
+  onSpectatorsChanged?: (spectators: Spectator[]) => void;
   onRulesUpdated?: (rules: RoomConfig['enabledRules']) => void;
+  onSettingsUpdated?: (settings: RoomSettings) => void;
+  onHostChanged?: (hostId: string, players: LobbyPlayer[]) => void;
+  onRoomLockChanged?: (locked: boolean) => void;
+  onKicked?: (banned: boolean) => void;
   onGameStarted?: (state: GameState, playerId: string) => void;
-  onGameStateUpdated?: (state: GameState) => void;
+  onGameStateUpdated?: (state: GameState, changes: PatchOp[] | null) => void; // null after a full snapshot
+  onSlapResult?: (result: SlapResult) => void;
+  onMatchUpdated?: (match: MatchState) => void;
   onError?: (message: string) => void;
   onDisconnected?: () => void;
+  onReconnecting?: () => void;
+  onReconnected?: (result: RejoinResult) => void;
 };
 
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private callbacks: SocketCallback = {};
   private _playerId: string | null = null;
   private _roomCode: string | null = null;
   private _isHost: boolean = false;
+  private _isSpectator: boolean = false;
+  private _spectators: Spectator[] = [];
+  private _match: MatchState | null = null;
+  private _config: RoomConfig | null = null; // Rules and settings of the room we're in
+  private serverUrl: string | null = null;
+  private reconnectToken: string | null = null;
+  private gameState: GameState | null = null;
+  private stateSeq: number | null = null; // null while waiting for a snapshot
+  private _clockOffset = 0; // Server clock minus ours, as of the last state message
 
   get playerId() { return this._playerId; }
   get roomCode() { return this._roomCode; }
   get isHost() { return this._isHost; }
+  get isSpectator() { return this._isSpectator; }
+  get spectators() { return this._spectators; }
+  get match() { return this._match; }
+  get config() { return this._config; }
+  get clockOffset() { return this._clockOffset; }
   get isConnected() { return this.socket?.connected ?? false; }
 
+  getSavedSession(): OnlineSession | null {
+    try {
+      const raw = sessionStorage.getItem(SESSION_KEY);
+      return raw ? (JSON.parse(raw) as OnlineSession) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveSession() {
+    if (!this.serverUrl || !this._roomCode || !this._playerId || !this.reconnectToken) return;
+    const session: OnlineSession = {
+      serverUrl: this.serverUrl,
+      code: this._roomCode,
+      playerId: this._playerId,
+      reconnectToken: this.reconnectToken,
+    };
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  }
+
+  clearSavedSession() {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+
   connect(serverUrl: string): Promise<void> {
     return new Promise((resolve, reject) => {
+      this.serverUrl = serverUrl;
       this.socket = io(serverUrl, {
         transports: ['websocket'],
         timeout: 5000,
+        auth: { protocolVersion: PROTOCOL_VERSION, clientId: getClientId() } satisfies HandshakeAuth,
       });
 
       this.socket.on('connect', () => {
@@ -55,39 +139,131 @@ class SocketService {
 
       this.socket.on('connect_error', (error) => {
         console.error('Connection error:', error);
+
+        // Retrying won't help - stop and tell the player to refresh
+        const details = (error as Error & { data?: ProtocolMismatchDetails }).data;
+        if (details?.code === 'protocol_mismatch') {
+          const outdated = new OutdatedClientError(details);
+          const wasInRoom = this._roomCode !== null;
+          this.socket?.disconnect();
+          if (wasInRoom) {
+            this.callbacks.onDisconnected?.();
+            this.callbacks.onError?.(outdated.message);
+          }
+          reject(outdated);
+          return;
+        }
+
         reject(error);
       });
 
-      this.socket.on('disconnect', () => {
-        console.log('Disconnected from server');
-        this.callbacks.onDisconnected?.();
+      this.socket.on('disconnect', (reason) => {
+        console.log('Disconnected from server:', reason);
+
+        // Socket.IO retries on its own unless the disconnect was deliberate
+        if (this.socket?.active && this._roomCode && this.reconnectToken) {
+          this.callbacks.onReconnecting?.();
+        } else {
+          this.callbacks.onDisconnected?.();
+        }
       });
 
-      this.socket.on('player_joined', (data: { players: LobbyPlayer[] }) => {
+      // Reclaim our seat as soon as the connection comes back
+      this.socket.io.on('reconnect', async () => {
+        const session = this.getSavedSession();
+        if (!session) return;
+
+        try {
+          const result = await this.rejoinRoom(session);
+          this.callbacks.onReconnected?.(result);
+        } catch (err) {
+          console.error('Rejoin failed:', err);
+          this.clearSavedSession();
+          this.callbacks.onDisconnected?.();
+        }
+      });
+
+      this.socket.on('player_joined', (data) => {
         this.callbacks.onPlayersChanged?.(data.players);
       });
 
-      this.socket.on('player_left', (data: { players: LobbyPlayer[] }) => {
+      this.socket.on('player_left', (data) => {
         this.callbacks.onPlayersChanged?.(data.players);
       });
 
-      this.socket.on('player_ready_changed', (data: { players: LobbyPlayer[] }) => {
+      this.socket.on('player_ready_changed', (data) => {
         this.callbacks.onPlayersChanged?.(data.players);
       });
 
-      this.socket.on('rules_updated', (data: { rules: RoomConfig['enabledRules'] }) => {
+      this.socket.on('host_changed', (data) => {
+        this._isHost = data.hostId === this._playerId;
+        this.callbacks.onHostChanged?.(data.hostId, data.players);
+      });
+
+      this.socket.on('room_lock_changed', (data) => {
+        this.callbacks.onRoomLockChanged?.(data.locked);
+      });
+
+      // The connection stays up so the player can join another room
+      this.socket.on('kicked', (data) => {
+        this.leaveRoomState();
+        this.callbacks.onKicked?.(data.banned);
+      });
+
+      this.socket.on('spectators_changed', (data) => {
+        this._spectators = data.spectators;
+        this.callbacks.onSpectatorsChanged?.(data.spectators);
+      });
+
+      this.socket.on('rules_updated', (data) => {
+        if (this._config) this._config = { ...this._config, enabledRules: data.rules };
         this.callbacks.onRulesUpdated?.(data.rules);
       });
 
-      this.socket.on('game_started', (data: { state: GameState; playerId: string }) => {
+      this.socket.on('settings_updated', (data) => {
+        if (this._config) this._config = { ...this._config, ...data.settings };
+        this.callbacks.onSettingsUpdated?.(data.settings);
+      });
+
+      this.socket.on('game_started', (data) => {
+        this.applySnapshot(data);
         this.callbacks.onGameStarted?.(data.state, data.playerId);
       });
 
-      this.socket.on('game_state_updated', (data: { state: GameState }) => {
-        this.callbacks.onGameStateUpdated?.(data.state);
+      this.socket.on('game_state_snapshot', (data) => {
+        this.applySnapshot(data);
+        this.callbacks.onGameStateUpdated?.(data.state, null);
+      });
+
+      this.socket.on('game_state_patch', ({ seq, ops, serverTime }) => {
+        // Still waiting on a snapshot; it will include this change
+        if (this.stateSeq === null || !this.gameState) return;
+
+        if (seq !== this.stateSeq + 1) {
+          console.warn(`Missed state patch (expected ${this.stateSeq + 1}, got ${seq}), resyncing`);
+          this.requestResync();
+          return;
+        }
+
+        this.gameState = applyPatch(this.gameState, ops);
+        this.stateSeq = seq;
+        this._clockOffset = serverTime - Date.now();
+        this.callbacks.onGameStateUpdated?.(this.gameState, ops);
+      });
+
+      this.socket.on('match_updated', (data) => {
+        this._match = data.match;
+        this.callbacks.onMatchUpdated?.(data.match);
+      });
+
+      this.socket.on('slap_result', (result) => {
+        this.callbacks.onSlapResult?.(result);
       });
 
-      this.socket.on('error', (data: { message: string }) => {
+      // Answer right away - the server times the round trip
+      this.socket.on('latency_ping', (ack) => ack());
+
+      this.socket.on('error', (data) => {
         this.callbacks.onError?.(data.message);
       });
     });
@@ -99,9 +275,32 @@ class SocketService {
       this.socket.disconnect();
       this.socket = null;
     }
+    this.leaveRoomState();
+  }
+
+  private leaveRoomState() {
     this._playerId = null;
     this._roomCode = null;
     this._isHost = false;
+    this._isSpectator = false;
+    this._spectators = [];
+    this._match = null;
+    this._config = null;
+    this.reconnectToken = null;
+    this.gameState = null;
+    this.stateSeq = null;
+    this.clearSavedSession();
+  }
+
+  private applySnapshot({ seq, state, serverTime }: StateSnapshot) {
+    this.gameState = state;
+    this.stateSeq = seq;
+    this._clockOffset = serverTime - Date.now();
+  }
+
+  private requestResync() {
+    this.stateSeq = null;
+    this.socket?.emit('request_resync');
   }
 
   setCallbacks(callbacks: SocketCallback) {
@@ -115,34 +314,108 @@ class SocketService {
         return;
       }
 
-      this.socket.emit('create_room', { playerName }, (response: any) => {
+      this.socket.emit('create_room', { playerName }, (response) => {
         if (response.success) {
           this._playerId = response.playerId;
           this._roomCode = response.code;
           this._isHost = response.isHost;
+          this._config = response.config;
+          this.reconnectToken = response.reconnectToken;
+          this.saveSession();
           resolve({ code: response.code, playerId: response.playerId });
         } else {
-          reject(new Error(response.error || 'Failed to create room'));
+          reject(new Error(response.error ?? 'Failed to create room'));
         }
       });
     });
   }
 
-  joinRoom(code: string, playerName: string): Promise<{ playerId: string }> {
+  joinRoom(code: string, playerName: string): Promise<{ playerId: string; config: RoomConfig }> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new Error('Not connected'));
         return;
       }
 
-      this.socket.emit('join_room', { code, playerName }, (response: any) => {
+      this.socket.emit('join_room', { code, playerName }, (response) => {
         if (response.success) {
           this._playerId = response.playerId;
           this._roomCode = response.code;
           this._isHost = response.isHost;
-          resolve({ playerId: response.playerId });
+          this._config = response.config;
+          this.reconnectToken = response.reconnectToken;
+          this.saveSession();
+          resolve({ playerId: response.playerId, config: response.config });
         } else {
-          reject(new Error(response.error || 'Failed to join room'));
+          reject(new Error(response.error ?? 'Failed to join room'));
+        }
+      });
+    });
+  }
+
+  rejoinRoom(session: OnlineSession): Promise<RejoinResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      // The server follows a successful rejoin with a fresh snapshot
+      this.stateSeq = null;
+
+      const { code, playerId, reconnectToken } = session;
+      this.socket.emit('rejoin_room', { code, playerId, reconnectToken }, (response) => {
+        if (response.success) {
+          this._playerId = response.playerId;
+          this._roomCode = response.code;
+          this._isHost = response.isHost;
+          this.reconnectToken = reconnectToken;
+          this._match = response.match;
+          this._config = response.config;
+          this.saveSession();
+          resolve({
+            playerId: response.playerId,
+            isHost: response.isHost,
+            players: response.players,
+            config: response.config,
+            locked: response.locked,
+            state: response.state,
+            match: response.match,
+          });
+        } else {
+          reject(new Error(response.error ?? 'Failed to rejoin room'));
+        }
+      });
+    });
+  }
+
+  // Watch a room without taking a seat. Spectators don't get a reconnect
+  // token - after a dropped connection they simply spectate again.
+  spectateRoom(code: string, playerName: string): Promise<SpectateResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.stateSeq = null;
+      this.socket.emit('spectate_room', { code, playerName }, (response) => {
+        if (response.success) {
+          this._playerId = response.spectatorId;
+          this._roomCode = response.code;
+          this._isHost = false;
+          this._isSpectator = true;
+          this._match = response.match;
+          this._config = response.config;
+          resolve({
+            spectatorId: response.spectatorId,
+            players: response.players,
+            config: response.config,
+            state: response.state,
+            match: response.match,
+          });
+        } else {
+          reject(new Error(response.error ?? 'Failed to spectate room'));
         }
       });
     });
@@ -160,17 +433,57 @@ class SocketService {
     }
   }
 
+  updateSettings(settings: Partial<RoomSettings>) {
+    if (this.socket) {
+      this.socket.emit('update_settings', settings);
+    }
+  }
+
+  kickPlayer(playerId: string, ban: boolean) {
+    if (this.socket) {
+      this.socket.emit('kick_player', { playerId, ban });
+    }
+  }
+
+  transferHost(playerId: string) {
+    if (this.socket) {
+      this.socket.emit('transfer_host', { playerId });
+    }
+  }
+
+  setRoomLocked(locked: boolean) {
+    if (this.socket) {
+      this.socket.emit('set_room_locked', { locked });
+    }
+  }
+
   startGame() {
     if (this.socket) {
       this.socket.emit('start_game');
     }
   }
 
-  sendAction(action: Omit<GameAction, 'playerId'>) {
-    if (this.socket && this._playerId) {
-      this.socket.emit('game_action', { ...action, playerId: this._playerId });
+  nextRound() {
+    if (this.socket) {
+      this.socket.emit('next_round');
     }
   }
+
+  // Resolves with the server's verdict on the action
+  sendAction(action: Omit<GameAction, 'playerId'>): Promise<ActionAck> {
+    return new Promise((resolve) => {
+      if (!this.socket || !this._playerId) {
+        resolve({ ok: false, code: 'not_in_game', reason: 'Not connected to a game' });
+        return;
+      }
+      if (this._isSpectator) {
+        resolve({ ok: false, code: 'spectating', reason: 'Spectators cannot play' });
+        return;
+      }
+
+      this.socket.emit('game_action', { ...action, playerId: this._playerId }, resolve);
+    });
+  }
 }
 
 export const socketService = new SocketService();
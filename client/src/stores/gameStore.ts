@@ -1,66 +1,288 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { GameState, GameConfig, GameAction, CardColor } from '../types/game.types';
-import { GameEngine } from '../engine/GameEngine';
+import type {
+  GameState,
+  GameConfig,
+  GameAction,
+  CardColor,
+  EngineSnapshot,
+  TakebackLimit,
+  MatchState,
+  RuleEffect,
+} from 'spicy-uno-shared';
+import { GameEngine, Match, generateSeed } from 'spicy-uno-shared';
+
+// Local game saved to localStorage after every change, so closing the tab doesn't lose it
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  config: GameConfig;          // Includes the seed
+  snapshot: EngineSnapshot;    // State (wild color, custom rules, hands...), log and RNG position
+  match: { config: GameConfig; state: MatchState };  // Mode and scores so far
+}
+
+const SAVED_GAME_KEY = 'spicy-uno:saved-game';
+const SAVED_GAME_VERSION = 6;
+
+export function loadSavedGame(): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(SAVED_GAME_KEY);
+    if (!raw) return null;
+
+    const save = JSON.parse(raw) as SavedGame;
+    return save.version === SAVED_GAME_VERSION ? save : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSavedGame(): void {
+  localStorage.removeItem(SAVED_GAME_KEY);
+}
+
+function saveGame(engine: GameEngine, match: Match): void {
+  const save: SavedGame = {
+    version: SAVED_GAME_VERSION,
+    savedAt: Date.now(),
+    config: engine.getConfig(),
+    snapshot: engine.createSnapshot(),
+    match: { config: match.getConfig(), state: match.getState() },
+  };
+
+  try {
+    localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(save));
+  } catch (error) {
+    // Quota exceeded or storage disabled - the game just won't be resumable
+    console.error('Failed to save game:', error);
+  }
+}
+
+interface UndoEntry {
+  playerId: string;         // Who made the move this entry takes back (or redoes)
+  snapshot: EngineSnapshot;
+}
 
 interface GameStore {
   // State
   engine: GameEngine | null;
   gameState: GameState | null;
+  match: Match | null;
+  matchState: MatchState | null;
   isLoading: boolean;
   error: string | null;
   selectedWildColor: CardColor | null;
+  takebacks: TakebackLimit;
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
 
   // Actions
   startGame: (config: GameConfig) => void;
+  resumeGame: (save: SavedGame) => void;
+  startNextRound: () => void;
   playCard: (playerId: string, cardId: string, wildColor?: CardColor) => void;
   drawCard: (playerId: string) => void;
   callUno: (playerId: string) => void;
   catchUno: (playerId: string, targetId: string) => void;
   slap: (playerId: string, timestamp: number) => void;
   selectColor: (playerId: string, color: CardColor) => void;
-  createCustomRule: (playerId: string, text: string, type: 'behavioral' | 'speech' | 'penalty' | 'action') => void;
-  reportSpeaking: (playerId: string, targetId: string) => void;
+  createCustomRule: (
+    playerId: string,
+    text: string,
+    type: 'behavioral' | 'speech' | 'penalty' | 'action',
+    effect?: RuleEffect,
+    penalty?: number
+  ) => void;
+  reportViolation: (playerId: string, targetId: string, ruleId: string) => void;
+  voteVerdict: (playerId: string, guilty: boolean) => void;
   requestCard: (playerId: string, targetId: string) => void;
   declineRequest: (playerId: string) => void;
   offerCard: (playerId: string, cardId: string) => void;
   acceptOffer: (playerId: string) => void;
   declineOffer: (playerId: string) => void;
   passTurn: (playerId: string) => void;
+  acceptDraw4: (playerId: string) => void;
+  challengeDraw4: (playerId: string) => void;
+  swapHands: (playerId: string, targetId: string) => void;
+  repealCustomRule: (playerId: string, ruleId: string) => void;
+  voteRule: (playerId: string, vote: boolean) => void;
   jumpIn: (playerId: string, cardId: string) => void;
   resetGame: () => void;
   setSelectedWildColor: (color: CardColor | null) => void;
+  canUndo: (playerId: string) => boolean;
+  canRedo: (playerId: string) => boolean;
+  undo: (playerId: string) => void;
+  redo: (playerId: string) => void;
+}
+
+// Set while undo/redo swaps the engine state, so that change doesn't clear the redo stack
+let isRestoring = false;
+
+// Close the slap window once its deadline passes, unless that race is already
+// over - a stale timer (from a race everyone slapped in, or one undo stepped
+// back out of) must not cut the next race short
+function scheduleSlapResolution(engine: GameEngine, deadline: number) {
+  setTimeout(() => {
+    const { phase, pendingAction } = engine.getState();
+    if (phase === 'slap_race' && pendingAction?.deadline === deadline) engine.resolveSlapRace();
+  }, Math.max(0, deadline - Date.now()));
+}
+
+// Count a rule vote or tribunal once its deadline passes, unless the votes settled it first
+function scheduleVoteClose(engine: GameEngine, deadline: number) {
+  setTimeout(() => {
+    if (engine.getState().pendingAction?.deadline === deadline) engine.closeVote();
+  }, Math.max(0, deadline - Date.now()));
+}
+
+// Re-arm the deadline when the engine jumps into the middle of a slap race or vote
+function resumeDeadline(engine: GameEngine) {
+  const { phase, pendingAction } = engine.getState();
+  if (!pendingAction?.deadline) return;
+  if (phase === 'slap_race') scheduleSlapResolution(engine, pendingAction.deadline);
+  if (phase === 'rule_vote' || phase === 'tribunal') scheduleVoteClose(engine, pendingAction.deadline);
+}
+
+// Only one turn clock runs at a time; it is re-armed on every state change
+let turnTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Auto-draw for the current player once their time is up
+function scheduleTurnTimeout(engine: GameEngine) {
+  if (turnTimer) clearTimeout(turnTimer);
+  turnTimer = null;
+
+  const { phase, turnDeadline } = engine.getState();
+  if ((phase !== 'playing' && phase !== 'draw4_challenge') || turnDeadline === null) return;
+
+  turnTimer = setTimeout(() => engine.expireTurn(), Math.max(0, turnDeadline - Date.now()));
+}
+
+// Score the round once the engine reaches game_over (a no-op otherwise)
+function recordRound(match: Match, state: GameState) {
+  if (!match.recordRound(state)) return;
+  useGameStore.setState((store) => {
+    store.matchState = match.getState();
+  });
+}
+
+// Wire a new or resumed engine (one round of the match) into the store
+function connectEngine(engine: GameEngine, match: Match) {
+  const config = match.getConfig();
+
+  // Subscribe to state changes
+  engine.on('state_changed', (newState: GameState) => {
+    // Ignore stray timers from an engine that has been replaced
+    if (useGameStore.getState().engine !== engine) return;
+
+    useGameStore.setState((state) => {
+      state.gameState = newState;
+      // Any new move (human or AI) makes the undone moves unreachable
+      if (!isRestoring) {
+        state.redoStack = [];
+      }
+    });
+
+    scheduleTurnTimeout(engine);
+    recordRound(match, newState);
+
+    // Between rounds the save holds the scores; only a finished match is forgotten
+    if (match.isOver()) {
+      clearSavedGame();
+    } else {
+      saveGame(engine, match);
+    }
+  });
+
+  engine.on('slap_race_started', ({ deadline }: { deadline: number }) => {
+    scheduleSlapResolution(engine, deadline);
+  });
+
+  engine.on('rule_vote_started', ({ deadline }: { deadline: number }) => {
+    scheduleVoteClose(engine, deadline);
+  });
+
+  engine.on('violation_reported', ({ deadline }: { deadline: number }) => {
+    scheduleVoteClose(engine, deadline);
+  });
+
+  // A resumed game may have been closed mid slap race or vote
+  resumeDeadline(engine);
+  scheduleTurnTimeout(engine);
+
+  useGameStore.setState((state) => {
+    state.engine = engine;
+    state.gameState = engine.getState();
+    state.match = match;
+    state.matchState = match.getState();
+    state.error = null;
+    state.takebacks = config.takebacks ?? 'off';
+    state.undoStack = [];
+    state.redoStack = [];
+  });
+
+  // A save can be taken after the last card but before the round was scored
+  recordRound(match, engine.getState());
+  if (!match.isOver()) saveGame(engine, match);
+}
+
+// Dispatch a player's action, remembering the engine as it was before for undo
+function dispatch(action: GameAction) {
+  const { engine, takebacks } = useGameStore.getState();
+  if (!engine) return;
+
+  const snapshot = takebacks !== 'off' ? engine.createSnapshot() : null;
+  engine.dispatch(action);
+
+  // Rejected actions don't reach the log and have nothing to undo
+  if (!snapshot || engine.getLog().length === snapshot.log.length) return;
+
+  useGameStore.setState((state) => {
+    const entry = { playerId: action.playerId, snapshot };
+    state.undoStack = takebacks === 'own_last_move' ? [entry] : [...state.undoStack, entry];
+  });
+}
+
+// Put the engine back to a snapshot taken by dispatch or undo
+function restoreSnapshot(snapshot: EngineSnapshot) {
+  const { engine } = useGameStore.getState();
+  if (!engine) return;
+
+  isRestoring = true;
+  engine.restoreSnapshot(snapshot);
+  isRestoring = false;
+
+  resumeDeadline(engine);
 }
 
 export const useGameStore = create<GameStore>()(
   immer((set, get) => ({
     engine: null,
     gameState: null,
+    match: null,
+    matchState: null,
     isLoading: false,
     error: null,
     selectedWildColor: null,
+    takebacks: 'off',
+    undoStack: [],
+    redoStack: [],
 
     startGame: (config) => {
-      const engine = new GameEngine(config);
+      const match = new Match(config);
+      connectEngine(match.createRoundEngine(), match);
+    },
 
-      // Subscribe to state changes
-      engine.on('state_changed', (newState: GameState) => {
-        set((state) => {
-          state.gameState = newState;
-        });
-      });
+    resumeGame: (save) => {
+      const match = new Match(save.match.config, save.match.state);
+      connectEngine(new GameEngine(save.config, save.snapshot), match);
+    },
 
-      set((state) => {
-        state.engine = engine;
-        state.gameState = engine.getState();
-        state.error = null;
-      });
+    startNextRound: () => {
+      const { match } = get();
+      if (!match || match.isOver() || !match.isRoundOver()) return;
+      connectEngine(match.startNextRound(), match);
     },
 
     playCard: (playerId, cardId, wildColor) => {
-      const { engine } = get();
-      if (!engine) return;
-
       const action: GameAction = {
         type: 'play_card',
         playerId,
@@ -68,34 +290,25 @@ export const useGameStore = create<GameStore>()(
         wildColor,
       };
 
-      engine.dispatch(action);
+      dispatch(action);
     },
 
     drawCard: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'draw_card',
         playerId,
       });
     },
 
     callUno: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'call_uno',
         playerId,
       });
     },
 
     catchUno: (playerId, targetId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'catch_uno',
         playerId,
         targetPlayerId: targetId,
@@ -103,10 +316,7 @@ export const useGameStore = create<GameStore>()(
     },
 
     slap: (playerId, timestamp) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'slap',
         playerId,
         timestamp,
@@ -114,43 +324,40 @@ export const useGameStore = create<GameStore>()(
     },
 
     selectColor: (playerId, color) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'select_color',
         playerId,
         wildColor: color,
       });
     },
 
-    createCustomRule: (playerId, text, type) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+    createCustomRule: (playerId, text, type, effect, penalty) => {
+      dispatch({
         type: 'create_custom_rule',
         playerId,
-        customRule: { text, type, createdBy: playerId },
+        customRule: { text, type, createdBy: playerId, effect, penalty },
       });
     },
 
-    reportSpeaking: (playerId, targetId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
-        type: 'report_speaking',
+    reportViolation: (playerId, targetId, ruleId) => {
+      dispatch({
+        type: 'report_violation',
         playerId,
         targetPlayerId: targetId,
+        ruleId,
       });
     },
 
-    requestCard: (playerId, targetId) => {
-      const { engine } = get();
-      if (!engine) return;
+    voteVerdict: (playerId, guilty) => {
+      dispatch({
+        type: 'vote_verdict',
+        playerId,
+        vote: guilty,
+      });
+    },
 
-      engine.dispatch({
+    requestCard: (playerId, targetId) => {
+      dispatch({
         type: 'request_card',
         playerId,
         targetPlayerId: targetId,
@@ -158,20 +365,14 @@ export const useGameStore = create<GameStore>()(
     },
 
     declineRequest: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'decline_request',
         playerId,
       });
     },
 
     offerCard: (playerId, cardId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'offer_card',
         playerId,
         cardId,
@@ -179,51 +380,78 @@ export const useGameStore = create<GameStore>()(
     },
 
     acceptOffer: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'accept_offer',
         playerId,
       });
     },
 
     declineOffer: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'decline_offer',
         playerId,
       });
     },
 
     passTurn: (playerId) => {
-      const { engine } = get();
-      if (!engine) return;
-
-      engine.dispatch({
+      dispatch({
         type: 'pass_turn',
         playerId,
       });
     },
 
-    jumpIn: (playerId, cardId) => {
-      const { engine } = get();
-      if (!engine) return;
+    acceptDraw4: (playerId) => {
+      dispatch({
+        type: 'accept_draw4',
+        playerId,
+      });
+    },
+
+    challengeDraw4: (playerId) => {
+      dispatch({
+        type: 'challenge_draw4',
+        playerId,
+      });
+    },
+
+    swapHands: (playerId, targetId) => {
+      dispatch({
+        type: 'swap_hands',
+        playerId,
+        targetPlayerId: targetId,
+      });
+    },
+
+    repealCustomRule: (playerId, ruleId) => {
+      dispatch({
+        type: 'repeal_custom_rule',
+        playerId,
+        ruleId,
+      });
+    },
+
+    voteRule: (playerId, vote) => {
+      dispatch({
+        type: 'vote_rule',
+        playerId,
+        vote,
+      });
+    },
 
-      engine.dispatch({
+    jumpIn: (playerId, cardId) => {
+      dispatch({
         type: 'jump_in',
         playerId,
         cardId,
       });
     },
 
+    // A new match with the same players and options, and a fresh seed
     resetGame: () => {
-      const { engine } = get();
-      if (engine) {
-        engine.reset();
-      }
+      const { match } = get();
+      if (!match) return;
+      const restarted = new Match({ ...match.getConfig(), seed: generateSeed() });
+      connectEngine(restarted.createRoundEngine(), restarted);
     },
 
     setSelectedWildColor: (color) => {
@@ -231,5 +459,53 @@ export const useGameStore = create<GameStore>()(
         state.selectedWildColor = color;
       });
     },
+
+    canUndo: (playerId) => {
+      const { engine, takebacks, undoStack } = get();
+      if (!engine || takebacks === 'off' || undoStack.length === 0) return false;
+      if (takebacks === 'unlimited') return true;
+
+      // Own last move only, and only while nobody else has acted since
+      const last = undoStack[undoStack.length - 1];
+      if (last.playerId !== playerId) return false;
+      return engine
+        .getLog()
+        .slice(last.snapshot.log.length)
+        .every((entry) => entry.kind !== 'action' || entry.action.playerId === playerId);
+    },
+
+    canRedo: (playerId) => {
+      const { takebacks, redoStack } = get();
+      if (takebacks === 'off' || redoStack.length === 0) return false;
+      return takebacks === 'unlimited' || redoStack[redoStack.length - 1].playerId === playerId;
+    },
+
+    undo: (playerId) => {
+      const { engine, canUndo, undoStack } = get();
+      if (!engine || !canUndo(playerId)) return;
+
+      const last = undoStack[undoStack.length - 1];
+      const current = engine.createSnapshot();
+      restoreSnapshot(last.snapshot);
+
+      set((state) => {
+        state.undoStack.pop();
+        state.redoStack.push({ playerId: last.playerId, snapshot: current });
+      });
+    },
+
+    redo: (playerId) => {
+      const { engine, canRedo, redoStack } = get();
+      if (!engine || !canRedo(playerId)) return;
+
+      const next = redoStack[redoStack.length - 1];
+      const current = engine.createSnapshot();
+      restoreSnapshot(next.snapshot);
+
+      set((state) => {
+        state.redoStack.pop();
+        state.undoStack.push({ playerId: next.playerId, snapshot: current });
+      });
+    },
   }))
 );
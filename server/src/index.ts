@@ -2,66 +2,102 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
+import type { z } from 'zod';
+import {
+  GameEngine,
+  Match,
+  AIPlayer,
+  generateSeed,
+  createSeededRandom,
+  deriveSeed,
+  PROTOCOL_VERSION,
+  DEFAULT_CARD_EFFECTS,
+  MAX_DRAWS_PER_TURN,
+  diffState,
+  type GameState,
+  type GamePhase,
+  type SlapRecord,
+  type SlapResult,
+  type RejectionCode,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type HandshakeAuth,
+  type ProtocolMismatchDetails,
+  type RoomConfig,
+  type RoomSettings,
+} from 'spicy-uno-shared';
+import {
+  createRoomSchema,
+  joinRoomSchema,
+  spectateRoomSchema,
+  rejoinRoomSchema,
+  toggleReadySchema,
+  updateRulesSchema,
+  updateSettingsSchema,
+  kickPlayerSchema,
+  transferHostSchema,
+  setRoomLockedSchema,
+  gameActionSchema,
+} from './schemas';
+
+// Per-connection data filled in during the handshake
+interface SocketData {
+  clientId: string;
+}
 
-// Types (simplified from client)
-type CardColor = 'red' | 'yellow' | 'green' | 'blue' | 'wild';
-type CardValue = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 'skip' | 'reverse' | 'draw2' | 'wild' | 'wild_draw4';
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
 
-interface Card {
+interface RoomPlayer {
   id: string;
-  color: CardColor;
-  value: CardValue;
+  name: string;
+  socketId: string;
+  ready: boolean;
+  reconnectToken: string; // Secret handed to the client so it can reclaim this seat
+  clientId: string; // Browser session the seat belongs to (see HandshakeAuth)
+  connected: boolean;
+  disconnectTimer: ReturnType<typeof setTimeout> | null;
+  sync: PlayerSync;
 }
 
-interface Player {
+// Someone watching the room without a seat. They get the public view of the
+// game only and are dropped straight away when their connection goes.
+interface RoomSpectator {
   id: string;
   name: string;
-  hand: Card[];
-  hasCalledUno: boolean;
-  isConnected: boolean;
   socketId: string;
+  sync: PlayerSync;
 }
 
-interface GameState {
-  id: string;
-  phase: 'waiting' | 'playing' | 'color_selection' | 'slap_race' | 'custom_rule_creation' | 'card_request' | 'offering_card' | 'game_over';
-  players: Player[];
-  currentPlayerIndex: number;
-  direction: 1 | -1;
-  drawPile: Card[];
-  discardPile: Card[];
-  pendingAction: any;
-  customRules: any[];
-  silenceMode: boolean;
-  stackedDrawAmount: number;
-  turnStartTime: number;
-  winner: string | null;
-  selectedWildColor: CardColor | null;
+// What this player's client last received, so the next update can be a patch
+interface PlayerSync {
+  seq: number;
+  view: GameState | null; // null forces a full snapshot next time
+  patchesSinceSnapshot: number;
 }
 
 interface Room {
   code: string;
   hostId: string;
-  players: Map<string, { id: string; name: string; socketId: string; ready: boolean }>;
-  gameState: GameState | null;
-  config: {
-    enabledRules: {
-      silence: boolean;
-      customRule: boolean;
-      stackDraw: boolean;
-      stackSkip: boolean;
-      slap: boolean;
-      jumpIn: boolean;
-      unoCall: boolean;
-      offerCard: boolean;
-    };
-  };
+  players: Map<string, RoomPlayer>;
+  spectators: Map<string, RoomSpectator>;
+  engine: GameEngine | null; // The round being played
+  match: Match | null;
+  seed: number | null; // Seed of the current round, logged so it can be reproduced
+  bots: Map<string, AIPlayer>; // Stand-ins for dropped players (playerId -> AI)
+  botTimers: ReturnType<typeof setTimeout>[];
+  botRaceDeadline: number | null; // The slap race or vote the bots' timers are for
+  botsInRace: Set<string>; // Bots already set to slap or vote in it
+  turnTimer: ReturnType<typeof setTimeout> | null;
+  config: RoomConfig;
+  locked: boolean; // No new players or spectators
+  bannedNames: Set<string>; // Lower-cased, for the lifetime of the room
+  bannedClients: Set<string>;
 }
 
 // Server setup
 const app = express();
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST'],
@@ -71,6 +107,22 @@ const io = new Server(httpServer, {
 const rooms = new Map<string, Room>();
 const playerRooms = new Map<string, string>(); // socketId -> roomCode
 
+// How long a dropped player's seat is held before they are removed
+const RECONNECT_GRACE_MS = 60_000;
+
+// Pause before a dropped player's turn is skipped
+const SKIP_DELAY_MS = 1000;
+// Everyone still in the round takes part, not just the player on turn
+const TABLE_WIDE_PHASES: GamePhase[] = ['slap_race', 'rule_vote', 'tribunal'];
+
+// Round-trip times from the latency pings (socketId -> smoothed ms)
+const socketRtts = new Map<string, number>();
+const PING_INTERVAL_MS = 2000;
+
+// Most a slow connection can stretch the slap window by
+const MAX_LATENCY_GRACE_MS = 500;
+const SNAPSHOT_INTERVAL = 25; // Patches between forced full snapshots
+
 // Generate a 4-letter room code
 function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
@@ -81,468 +133,423 @@ function generateRoomCode(): string {
   return rooms.has(code) ? generateRoomCode() : code;
 }
 
-// Create a deck of cards
-function createDeck(): Card[] {
-  const colors: CardColor[] = ['red', 'yellow', 'green', 'blue'];
-  const cards: Card[] = [];
-
-  // Number cards (0-9, one 0 per color, two of each 1-9)
-  for (const color of colors) {
-    cards.push({ id: uuidv4(), color, value: 0 });
-    for (let i = 1; i <= 9; i++) {
-      cards.push({ id: uuidv4(), color, value: i as CardValue });
-      cards.push({ id: uuidv4(), color, value: i as CardValue });
-    }
-    // Action cards (2 each)
-    for (const action of ['skip', 'reverse', 'draw2'] as CardValue[]) {
-      cards.push({ id: uuidv4(), color, value: action });
-      cards.push({ id: uuidv4(), color, value: action });
-    }
-  }
-
-  // Wild cards (4 each)
-  for (let i = 0; i < 4; i++) {
-    cards.push({ id: uuidv4(), color: 'wild', value: 'wild' });
-    cards.push({ id: uuidv4(), color: 'wild', value: 'wild_draw4' });
-  }
-
-  return shuffle(cards);
+// Get sanitized state for a specific player (hide other hands)
+function getStateForPlayer(state: GameState, playerId: string): GameState {
+  const { pendingAction } = state;
+  return {
+    ...state,
+    players: state.players.map(p => ({
+      ...p,
+      hand: p.id === playerId ? p.hand : p.hand.map(() => ({ id: 'hidden', color: 'wild' as const, value: 'wild' as const })),
+    })),
+    drawPile: [], // Don't send draw pile to clients
+    pendingAction: pendingAction && { ...pendingAction, illegal: undefined }, // Would give a +4 bluff away
+  };
 }
 
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array];
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
-// Initialize game state
-function initializeGame(room: Room): GameState {
-  const deck = createDeck();
-  const players: Player[] = [];
-
-  // Deal 7 cards to each player
-  for (const [id, player] of room.players) {
-    players.push({
-      id,
-      name: player.name,
-      hand: deck.splice(0, 7),
-      hasCalledUno: false,
-      isConnected: true,
-      socketId: player.socketId,
-    });
-  }
-
-  // Find a valid starting card (not wild, not action)
-  let startCardIndex = deck.findIndex(c => c.color !== 'wild' && typeof c.value === 'number');
-  if (startCardIndex === -1) startCardIndex = 0;
-  const startCard = deck.splice(startCardIndex, 1)[0];
-
+function createPlayer(name: string, socket: GameSocket): RoomPlayer {
   return {
-    id: room.code,
-    phase: 'playing',
-    players,
-    currentPlayerIndex: 0,
-    direction: 1,
-    drawPile: deck,
-    discardPile: [startCard],
-    pendingAction: null,
-    customRules: [],
-    silenceMode: false,
-    stackedDrawAmount: 0,
-    turnStartTime: Date.now(),
-    winner: null,
-    selectedWildColor: null,
+    id: uuidv4(),
+    name,
+    socketId: socket.id,
+    ready: false,
+    reconnectToken: uuidv4(),
+    clientId: socket.data.clientId,
+    connected: true,
+    disconnectTimer: null,
+    sync: { seq: 0, view: null, patchesSinceSnapshot: 0 },
   };
 }
 
-// Get the top discard card
-function getTopCard(state: GameState): Card {
-  return state.discardPile[state.discardPile.length - 1];
+// What a spectator may see: hand sizes but no cards, and nothing about
+// cards being passed privately between players
+function getStateForSpectator(state: GameState): GameState {
+  const { lastAction, pendingAction } = state;
+  return {
+    ...state,
+    players: state.players.map(p => ({
+      ...p,
+      hand: p.hand.map(() => ({ id: 'hidden', color: 'wild' as const, value: 'wild' as const })),
+    })),
+    drawPile: [],
+    pendingAction: pendingAction && { ...pendingAction, offeredCardId: undefined, illegal: undefined },
+    lastAction: lastAction?.type === 'offer_card' ? { ...lastAction, cardId: undefined } : lastAction,
+  };
 }
 
-// Check if a card can be played
-function canPlayCard(state: GameState, card: Card): boolean {
-  const topCard = getTopCard(state);
-  const effectiveColor = state.selectedWildColor || topCard.color;
-
-  // Wild cards can always be played
-  if (card.color === 'wild') return true;
-
-  // Match color
-  if (card.color === effectiveColor) return true;
-
-  // Match value
-  if (card.value === topCard.value) return true;
+// Public lobby view of the players (no sockets or tokens)
+function getLobbyPlayers(room: Room) {
+  return Array.from(room.players.values()).map(p => ({
+    id: p.id,
+    name: p.name,
+    ready: p.ready,
+    connected: p.connected,
+    isHost: p.id === room.hostId,
+  }));
+}
 
-  return false;
+function getSpectators(room: Room) {
+  return Array.from(room.spectators.values()).map(s => ({ id: s.id, name: s.name }));
 }
 
-// Get valid moves for a player
-function getValidMoves(state: GameState, playerId: string): Card[] {
-  const player = state.players.find(p => p.id === playerId);
-  if (!player) return [];
+// Send each player what changed in their own view of the game. A full
+// snapshot goes out at game start, after a resync and every so often so a
+// client can never drift far.
+function broadcastState(room: Room, event: 'game_started' | 'game_state_patch'): void {
+  if (!room.engine) return;
+  const state = room.engine.getState();
 
-  // If there's stacked draw, only +2/+4 cards can be played
-  if (state.stackedDrawAmount > 0) {
-    return player.hand.filter(c => c.value === 'draw2' || c.value === 'wild_draw4');
+  for (const player of room.players.values()) {
+    if (!player.connected) continue;
+    sendState(player, getStateForPlayer(state, player.id), event);
   }
 
-  return player.hand.filter(c => canPlayCard(state, c));
+  if (room.spectators.size > 0) {
+    const publicView = getStateForSpectator(state);
+    for (const spectator of room.spectators.values()) {
+      sendState(spectator, publicView, event);
+    }
+  }
 }
 
-// Advance to next player
-function nextPlayer(state: GameState, skip = 0): number {
-  let next = state.currentPlayerIndex;
-  for (let i = 0; i <= skip; i++) {
-    next = (next + state.direction + state.players.length) % state.players.length;
-  }
-  return next;
-}
-
-// Draw cards from pile
-function drawCards(state: GameState, count: number): Card[] {
-  const cards: Card[] = [];
-  for (let i = 0; i < count; i++) {
-    if (state.drawPile.length === 0) {
-      // Reshuffle discard pile
-      const topCard = state.discardPile.pop()!;
-      state.drawPile = shuffle(state.discardPile);
-      state.discardPile = [topCard];
-    }
-    if (state.drawPile.length > 0) {
-      cards.push(state.drawPile.pop()!);
-    }
+// A patch falls back to a full snapshot when there is nothing to diff against
+// or the snapshot interval is up
+function sendState(
+  player: RoomPlayer | RoomSpectator,
+  view: GameState,
+  event: 'game_started' | 'game_state_snapshot' | 'game_state_patch'
+): void {
+  const playerSocket = io.sockets.sockets.get(player.socketId);
+  if (!playerSocket) return;
+  const { sync } = player;
+
+  if (event === 'game_state_patch' && sync.view && sync.patchesSinceSnapshot < SNAPSHOT_INTERVAL) {
+    const ops = diffState(sync.view, view);
+    if (ops.length === 0) return;
+    sync.seq++;
+    sync.view = view;
+    sync.patchesSinceSnapshot++;
+    playerSocket.emit('game_state_patch', { seq: sync.seq, ops, serverTime: Date.now() });
+    return;
   }
-  return cards;
+
+  sync.seq++;
+  sync.view = view;
+  sync.patchesSinceSnapshot = 0;
+  playerSocket.emit(event === 'game_started' ? 'game_started' : 'game_state_snapshot', {
+    seq: sync.seq,
+    state: view,
+    playerId: player.id,
+    serverTime: Date.now(),
+  });
 }
 
-// Handle game actions
-function handleAction(room: Room, action: any): void {
-  const state = room.gameState;
-  if (!state || state.phase === 'game_over') return;
+// Start a match between everyone seated in the room
+function createMatch(room: Room): Match {
+  const seats = Array.from(room.players.values());
+  return new Match({
+    playerCount: seats.length,
+    playerNames: seats.map(p => p.name),
+    playerIds: seats.map(p => p.id),
+    enabledRules: room.config.enabledRules,
+    seed: generateSeed(),
+    turnTimeLimit: room.config.turnTimeLimit || undefined,
+    stackDrawMode: room.config.stackDrawMode,
+    cardEffects: room.config.cardEffects,
+    targetScore: room.config.targetScore || undefined,
+    matchMode: room.config.matchMode,
+    ruleLifetime: room.config.ruleLifetime,
+    maxDrawsPerTurn: room.config.maxDrawsPerTurn,
+  });
+}
 
-  const { type, playerId } = action;
-  const playerIndex = state.players.findIndex(p => p.id === playerId);
-  const player = state.players[playerIndex];
+// Make `engine` the room's current round and send it to everyone
+function startRound(room: Room, match: Match, engine: GameEngine): void {
+  clearBotTimers(room);
+  room.bots.clear();
+  room.engine = engine;
+  room.seed = engine.getSeed();
+
+  // Seats that dropped or left during an earlier round are dealt in absent
+  for (const playerId of match.getState().playerIds) {
+    if (room.players.get(playerId)?.connected) continue;
+    engine.setPlayerConnected(playerId, false);
+    startBot(room, playerId);
+  }
 
-  if (!player) return;
+  watchEngine(room, match, engine);
+  io.to(room.code).emit('match_updated', { match: match.getState() });
+  broadcastState(room, 'game_started');
+  scheduleTurnTimeout(room);
+  driveDisconnectedSeats(room);
+}
 
-  switch (type) {
-    case 'play_card': {
-      const { cardId, wildColor } = action;
-      const cardIndex = player.hand.findIndex(c => c.id === cardId);
-      if (cardIndex === -1) return;
-
-      const card = player.hand[cardIndex];
-
-      // Validate it's player's turn (unless jump-in)
-      if (state.currentPlayerIndex !== playerIndex) {
-        // Check for jump-in
-        if (room.config.enabledRules.jumpIn) {
-          const topCard = getTopCard(state);
-          if (card.color === topCard.color && card.value === topCard.value) {
-            // Valid jump-in
-            player.hand.splice(cardIndex, 1);
-            state.discardPile.push(card);
-            state.currentPlayerIndex = playerIndex;
-            state.selectedWildColor = null;
-            state.turnStartTime = Date.now();
-
-            // Check win
-            if (player.hand.length === 0) {
-              state.phase = 'game_over';
-              state.winner = playerId;
-            } else {
-              state.currentPlayerIndex = nextPlayer(state);
-            }
-            return;
-          }
-        }
-        return;
-      }
+// Hook the room's timers, broadcasts and scoring up to a round's engine
+function watchEngine(room: Room, match: Match, engine: GameEngine): void {
+  engine.on('state_changed', (state: GameState) => {
+    // Stray timers from a finished round
+    if (room.engine !== engine) return;
 
-      // Validate card can be played
-      if (!canPlayCard(state, card) && state.stackedDrawAmount === 0) return;
+    if (match.recordRound(state)) {
+      io.to(room.code).emit('match_updated', { match: match.getState() });
+    }
+    broadcastState(room, 'game_state_patch');
+    scheduleTurnTimeout(room);
+    driveDisconnectedSeats(room);
+  });
 
-      // Play the card
-      player.hand.splice(cardIndex, 1);
-      state.discardPile.push(card);
+  // The server owns the slap window. It stays open a little past the deadline
+  // so slaps from slower connections can still arrive, but those are then
+  // judged by when they were made, not when they got here.
+  engine.on('slap_race_started', ({ deadline }: { deadline: number }) => {
+    setTimeout(() => {
+      // Everyone may have slapped already - this timer must not cut the next race short
+      const { phase, pendingAction } = engine.getState();
+      if (phase !== 'slap_race' || pendingAction?.deadline !== deadline) return;
+      engine.resolveSlapRace((pendingAction.slaps ?? []).filter(s => s.timestamp <= deadline));
+    }, Math.max(0, deadline + getLatencyGrace(room) - Date.now()));
+  });
 
-      // Handle wild color
-      if (card.color === 'wild') {
-        state.selectedWildColor = wildColor || null;
-        if (!wildColor) {
-          state.phase = 'color_selection';
-          return;
-        }
-      } else {
-        state.selectedWildColor = null;
-      }
+  // Rule votes and tribunals are settled at their deadline with whatever votes are in,
+  // unless the votes already settled them
+  const scheduleVoteClose = ({ deadline }: { deadline: number }) => {
+    setTimeout(() => {
+      if (engine.getState().pendingAction?.deadline === deadline) engine.closeVote();
+    }, Math.max(0, deadline - Date.now()));
+  };
+  engine.on('rule_vote_started', scheduleVoteClose);
+  engine.on('violation_reported', scheduleVoteClose);
+
+  engine.on('slap_race_ended', ({ loserId, slaps, startedAt }: { loserId: string; slaps: SlapRecord[]; startedAt: number }) => {
+    const result: SlapResult = {
+      loserId,
+      reactions: engine.getState().players.map(p => {
+        const slap = slaps.find(s => s.playerId === p.id);
+        return { playerId: p.id, reactionMs: slap ? Math.max(0, Math.round(slap.timestamp - startedAt)) : null };
+      }),
+    };
+    io.to(room.code).emit('slap_result', result);
+  });
+}
 
-      // Check win
-      if (player.hand.length === 0) {
-        state.phase = 'game_over';
-        state.winner = playerId;
-        return;
-      }
+// The server owns the turn clock too: auto-draw for whoever runs out of time
+function scheduleTurnTimeout(room: Room): void {
+  if (room.turnTimer) clearTimeout(room.turnTimer);
+  room.turnTimer = null;
 
-      // Apply card effects
-      applyCardEffects(room, card, playerIndex);
-      break;
-    }
+  const engine = room.engine;
+  if (!engine) return;
 
-    case 'draw_card': {
-      if (state.currentPlayerIndex !== playerIndex) return;
+  const { phase, turnDeadline } = engine.getState();
+  if ((phase !== 'playing' && phase !== 'draw4_challenge') || turnDeadline === null) return;
 
-      // Draw stacked amount or 1
-      const amount = state.stackedDrawAmount > 0 ? state.stackedDrawAmount : 1;
-      const cards = drawCards(state, amount);
-      player.hand.push(...cards);
-      state.stackedDrawAmount = 0;
+  room.turnTimer = setTimeout(() => engine.expireTurn(), Math.max(0, turnDeadline - Date.now()));
+}
 
-      // Move to next player
-      state.currentPlayerIndex = nextPlayer(state);
-      state.turnStartTime = Date.now();
-      player.hasCalledUno = false;
-      break;
-    }
+// Slowest round trip among the room's players, capped
+function getLatencyGrace(room: Room): number {
+  const rtts = Array.from(room.players.values()).map(p => socketRtts.get(p.socketId) ?? 0);
+  return Math.min(MAX_LATENCY_GRACE_MS, Math.max(0, ...rtts));
+}
 
-    case 'select_color': {
-      if (state.phase !== 'color_selection') return;
-      state.selectedWildColor = action.wildColor;
-      state.phase = 'playing';
-      state.currentPlayerIndex = nextPlayer(state);
-      state.turnStartTime = Date.now();
-      break;
-    }
+function clearBotTimers(room: Room): void {
+  room.botTimers.forEach(clearTimeout);
+  room.botTimers = [];
+  room.botRaceDeadline = null;
+  room.botsInRace.clear();
+}
 
-    case 'call_uno': {
-      if (player.hand.length <= 2) {
-        player.hasCalledUno = true;
-      }
-      break;
-    }
+function scheduleBotAction(room: Room, delay: number, action: () => void): void {
+  room.botTimers.push(setTimeout(() => {
+    if (room.engine?.getState().phase === 'game_over') return;
+    action();
+  }, delay));
+}
 
-    case 'catch_uno': {
-      const target = state.players.find(p => p.id === action.targetPlayerId);
-      if (target && target.hand.length === 1 && !target.hasCalledUno) {
-        const cards = drawCards(state, 2);
-        target.hand.push(...cards);
+// Keep the game moving while players are away, per the room's disconnect policy.
+// Runs after every state change; anything still pending is rescheduled, except
+// the slaps and votes of a race or vote that is still on.
+function driveDisconnectedSeats(room: Room): void {
+  const engine = room.engine;
+  const state = engine?.getState();
+  const deadline = state?.pendingAction?.deadline ?? null;
+  const isTableWide = !!state && TABLE_WIDE_PHASES.includes(state.phase);
+
+  if (!isTableWide || room.botRaceDeadline !== deadline) {
+    clearBotTimers(room);
+    if (isTableWide) room.botRaceDeadline = deadline;
+  }
+  if (!engine || !state || state.phase === 'game_over') return;
+
+  // Every bot joins a slap race or vote, once; under the skip policy it closes
+  // at its deadline without the absent players
+  if (isTableWide) {
+    if (room.config.disconnectPolicy === 'skip') return;
+    for (const [playerId, bot] of room.bots) {
+      if (room.botsInRace.has(playerId)) continue;
+      const decision = bot.makeDecision(state);
+      if (decision) {
+        room.botsInRace.add(playerId);
+        scheduleBotAction(room, decision.delay, () => engine.dispatch(decision.action));
       }
-      break;
-    }
-
-    case 'slap': {
-      if (state.phase !== 'slap_race') return;
-      // Simple: first to slap wins, last gets penalty
-      // For now, just end slap race
-      state.phase = 'playing';
-      state.pendingAction = null;
-      break;
     }
+    return;
+  }
 
-    case 'create_custom_rule': {
-      if (state.phase !== 'custom_rule_creation') return;
-      state.customRules.push({
-        id: uuidv4(),
-        text: action.customRule.text,
-        type: action.customRule.type,
-        createdBy: playerId,
-        createdAt: Date.now(),
-      });
-      state.phase = 'playing';
-      state.currentPlayerIndex = nextPlayer(state);
-      state.turnStartTime = Date.now();
-      break;
-    }
+  // Whoever the game is waiting on: the player asked for a card, picking a hand to swap...
+  const actorId = state.pendingAction?.targetPlayer ?? state.players[state.currentPlayerIndex].id;
+  const actor = state.players.find(p => p.id === actorId);
+  if (!actor) return;
 
-    case 'report_speaking': {
-      if (!state.silenceMode) return;
-      const target = state.players.find(p => p.id === action.targetPlayerId);
-      if (target) {
-        const cards = drawCards(state, 1);
-        target.hand.push(...cards);
-      }
-      break;
-    }
+  if (room.config.disconnectPolicy === 'skip') {
+    if (actor.isConnected) return;
 
-    case 'request_card': {
-      if (!room.config.enabledRules.offerCard) return;
-      const target = state.players.find(p => p.id === action.targetPlayerId);
-      if (!target || target.hand.length === 0) return;
-
-      state.phase = 'card_request';
-      state.pendingAction = {
-        type: 'card_request',
-        requesterId: playerId,
-        targetPlayer: action.targetPlayerId,
-      };
-      break;
+    // An absent player takes a Wild Draw Four without challenging it
+    if (state.phase === 'draw4_challenge') {
+      scheduleBotAction(room, SKIP_DELAY_MS, () => engine.dispatch({ type: 'accept_draw4', playerId: actor.id }));
+      return;
     }
 
-    case 'decline_request': {
-      if (state.phase !== 'card_request') return;
-      if (state.pendingAction?.targetPlayer !== playerId) return;
-      state.phase = 'playing';
-      state.pendingAction = null;
-      break;
+    // A pending +2/+4 stack still lands on the absent player
+    if (state.phase === 'playing') {
+      scheduleBotAction(room, SKIP_DELAY_MS, () => {
+        if (state.stackedDrawAmount > 0) {
+          engine.dispatch({ type: 'draw_card', playerId: actor.id });
+        } else {
+          engine.skipTurn();
+        }
+      });
+      return;
     }
 
-    case 'offer_card': {
-      if (state.phase !== 'card_request') return;
-      if (state.pendingAction?.targetPlayer !== playerId) return;
-
-      const requesterId = state.pendingAction.requesterId;
-      state.phase = 'offering_card';
-      state.pendingAction = {
-        type: 'offer_decision',
-        offererId: playerId,
-        targetPlayer: requesterId,
-        offeredCardId: action.cardId,
-        requesterId,
-      };
-      break;
+    // Anything else left to them (a hand to swap, a rule to make, a card
+    // request...) can't be skipped, so it goes the way an easy bot would have it
+    const random = createSeededRandom(deriveSeed(engine.getSeed(), `absent:${actor.id}`));
+    const decision = new AIPlayer(actor.id, 'easy', random, engine.getConfig()).makeDecision(state);
+    if (decision) {
+      scheduleBotAction(room, SKIP_DELAY_MS, () => engine.dispatch(decision.action));
     }
+    return;
+  }
 
-    case 'accept_offer': {
-      if (state.phase !== 'offering_card') return;
-      if (!state.pendingAction) return;
-
-      const { offererId, offeredCardId, targetPlayer } = state.pendingAction;
-      const offerer = state.players.find(p => p.id === offererId);
-      const target = state.players.find(p => p.id === targetPlayer);
-
-      if (!offerer || !target) return;
-
-      const cardIndex = offerer.hand.findIndex(c => c.id === offeredCardId);
-      if (cardIndex === -1) return;
-
-      const card = offerer.hand.splice(cardIndex, 1)[0];
-      target.hand.push(card);
-
-      state.phase = 'playing';
-      state.pendingAction = null;
-      break;
-    }
+  const bot = room.bots.get(actor.id);
+  const decision = bot?.makeDecision(state);
+  if (!bot || !decision) return;
 
-    case 'decline_offer': {
-      if (state.phase !== 'offering_card') return;
-      state.phase = 'playing';
-      state.pendingAction = null;
-      break;
+  scheduleBotAction(room, decision.delay, () => {
+    // Bots remember UNO just like the local AI does
+    if (decision.action.type === 'play_card' && bot.shouldCallUno(engine.getState())) {
+      engine.dispatch({ type: 'call_uno', playerId: bot.id });
     }
-  }
+    engine.dispatch(decision.action);
+  });
 }
 
-function applyCardEffects(room: Room, card: Card, playerIndex: number): void {
-  const state = room.gameState!;
-  const config = room.config.enabledRules;
+// Hand a dropped player's seat to a bot (bot policy only)
+function startBot(room: Room, playerId: string): void {
+  if (!room.engine || room.config.disconnectPolicy !== 'bot' || room.bots.has(playerId)) return;
 
-  switch (card.value) {
-    case 'skip':
-      if (config.stackSkip) {
-        // Could implement skip stacking here
-      }
-      state.currentPlayerIndex = nextPlayer(state, 1);
-      break;
+  const random = createSeededRandom(deriveSeed(room.engine.getSeed(), `bot:${playerId}`));
+  room.bots.set(playerId, new AIPlayer(playerId, room.config.botDifficulty, random, room.engine.getConfig()));
+  room.engine.setPlayerBotControlled(playerId, true);
+}
 
-    case 'reverse':
-      if (state.players.length === 2) {
-        state.currentPlayerIndex = nextPlayer(state, 1);
-      } else {
-        state.direction *= -1;
-        state.currentPlayerIndex = nextPlayer(state);
-      }
-      break;
+function stopBot(room: Room, playerId: string): void {
+  if (!room.bots.delete(playerId)) return;
+  room.engine?.setPlayerBotControlled(playerId, false);
+}
 
-    case 'draw2':
-      if (config.stackDraw) {
-        state.stackedDrawAmount += 2;
+type Payload<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0];
+type AckResponse<E extends keyof ClientToServerEvents> =
+  Parameters<ClientToServerEvents[E]>[1] extends (response: infer R) => void ? R : never;
+
+// Register a handler that only ever sees payloads matching its schema. A
+// malformed payload is logged and answered with `invalid` (or an error event
+// when the sender didn't ask for an ack) instead of reaching the handler.
+function onValidated<E extends keyof ClientToServerEvents>(
+  socket: GameSocket,
+  event: E,
+  schema: z.ZodType<Payload<E>>,
+  handler: (data: Payload<E>, ack: (response: AckResponse<E>) => void) => void,
+  invalid?: AckResponse<E>
+): void {
+  const listener = (data: unknown, ack?: unknown) => {
+    const reply = typeof ack === 'function' ? (ack as (response: AckResponse<E>) => void) : null;
+    const result = schema.safeParse(data);
+
+    if (!result.success) {
+      console.warn(`Rejected ${event} from ${socket.id}: ${result.error.message}`);
+      if (reply && invalid !== undefined) {
+        reply(invalid);
       } else {
-        const nextIdx = nextPlayer(state);
-        const cards = drawCards(state, 2);
-        state.players[nextIdx].hand.push(...cards);
-        state.currentPlayerIndex = nextPlayer(state, 1);
+        socket.emit('error', { message: `Invalid ${event} request` });
       }
-      state.currentPlayerIndex = nextPlayer(state);
-      break;
+      return;
+    }
 
-    case 'wild_draw4':
-      if (config.stackDraw) {
-        state.stackedDrawAmount += 4;
-      } else {
-        const nextIdx = nextPlayer(state);
-        const cards = drawCards(state, 4);
-        state.players[nextIdx].hand.push(...cards);
-        state.currentPlayerIndex = nextPlayer(state, 1);
-      }
-      state.currentPlayerIndex = nextPlayer(state);
-      break;
+    handler(result.data, reply ?? (() => {}));
+  };
 
-    case 7:
-      if (config.silence) {
-        state.silenceMode = !state.silenceMode;
-      }
-      state.currentPlayerIndex = nextPlayer(state);
-      break;
+  socket.on(event, listener as Parameters<typeof socket.on<E>>[1]);
+}
 
-    case 0:
-      if (config.customRule) {
-        state.phase = 'custom_rule_creation';
-      } else {
-        state.currentPlayerIndex = nextPlayer(state);
-      }
-      break;
-
-    case 5:
-      if (config.slap) {
-        state.phase = 'slap_race';
-        state.pendingAction = {
-          type: 'slap',
-          deadline: Date.now() + 3000,
-        };
-      } else {
-        state.currentPlayerIndex = nextPlayer(state);
-      }
-      break;
+const INVALID_REQUEST = { success: false, error: 'Invalid request' } as const;
 
-    default:
-      state.currentPlayerIndex = nextPlayer(state);
-      break;
+// Turn away clients built against a different protocol before they can join anything
+io.use((socket, next) => {
+  const { protocolVersion, clientId } = (socket.handshake.auth ?? {}) as Partial<HandshakeAuth>;
+  if (protocolVersion === PROTOCOL_VERSION) {
+    socket.data.clientId = typeof clientId === 'string' && clientId ? clientId.slice(0, 64) : socket.id;
+    next();
+    return;
   }
 
-  state.turnStartTime = Date.now();
-}
-
-// Get sanitized state for a specific player (hide other hands)
-function getStateForPlayer(state: GameState, playerId: string): any {
-  return {
-    ...state,
-    players: state.players.map(p => ({
-      ...p,
-      hand: p.id === playerId ? p.hand : p.hand.map(() => ({ id: 'hidden', color: 'wild', value: 'wild' })),
-    })),
-    drawPile: [], // Don't send draw pile to clients
+  const details: ProtocolMismatchDetails = {
+    code: 'protocol_mismatch',
+    serverVersion: PROTOCOL_VERSION,
+    clientVersion: typeof protocolVersion === 'number' ? protocolVersion : null,
   };
-}
+  const error = new Error(`Protocol mismatch: server v${PROTOCOL_VERSION}, client v${details.clientVersion ?? '?'}`);
+  next(Object.assign(error, { data: details }));
+});
 
 // Socket handlers
-io.on('connection', (socket: Socket) => {
+io.on('connection', (socket: GameSocket) => {
   console.log(`Player connected: ${socket.id}`);
 
+  // Measure round-trip time so slaps can be judged fairly
+  const pingInterval = setInterval(() => {
+    const sentAt = Date.now();
+    socket.timeout(PING_INTERVAL_MS).emit('latency_ping', (err: Error) => {
+      if (err) return;
+      const rtt = Date.now() - sentAt;
+      const previous = socketRtts.get(socket.id);
+      // Smooth out jitter so one slow ping doesn't swing a race
+      socketRtts.set(socket.id, previous === undefined ? rtt : previous * 0.7 + rtt * 0.3);
+    });
+  }, PING_INTERVAL_MS);
+
   // Create room
-  socket.on('create_room', (data: { playerName: string }, callback) => {
+  onValidated(socket, 'create_room', createRoomSchema, (data, callback) => {
     const code = generateRoomCode();
-    const playerId = uuidv4();
+    const player = createPlayer(data.playerName, socket);
 
     const room: Room = {
       code,
-      hostId: playerId,
-      players: new Map([[playerId, { id: playerId, name: data.playerName, socketId: socket.id, ready: false }]]),
-      gameState: null,
+      hostId: player.id,
+      players: new Map([[player.id, player]]),
+      spectators: new Map(),
+      engine: null,
+      match: null,
+      seed: null,
+      bots: new Map(),
+      botTimers: [],
+      botRaceDeadline: null,
+      botsInRace: new Set(),
+      turnTimer: null,
+      locked: false,
+      bannedNames: new Set(),
+      bannedClients: new Set(),
       config: {
         enabledRules: {
           silence: true,
@@ -553,7 +560,22 @@ io.on('connection', (socket: Socket) => {
           jumpIn: true,
           unoCall: true,
           offerCard: true,
+          playAfterDraw: false,
+          drawUntilPlayable: false,
+          passAfterDraws: false,
+          challengeDraw4: false,
+          ruleVote: false,
+          ruleRepeal: false,
         },
+        disconnectPolicy: 'skip',
+        botDifficulty: 'medium',
+        turnTimeLimit: 0,
+        stackDrawMode: 'same',
+        cardEffects: DEFAULT_CARD_EFFECTS,
+        targetScore: 0,
+        matchMode: 'standard',
+        ruleLifetime: 1,
+        maxDrawsPerTurn: MAX_DRAWS_PER_TURN,
       },
     };
 
@@ -561,12 +583,19 @@ io.on('connection', (socket: Socket) => {
     playerRooms.set(socket.id, code);
     socket.join(code);
 
-    callback({ success: true, code, playerId, isHost: true });
+    callback({
+      success: true,
+      code,
+      playerId: player.id,
+      reconnectToken: player.reconnectToken,
+      isHost: true,
+      config: room.config,
+    });
     console.log(`Room ${code} created by ${data.playerName}`);
-  });
+  }, INVALID_REQUEST);
 
   // Join room
-  socket.on('join_room', (data: { code: string; playerName: string }, callback) => {
+  onValidated(socket, 'join_room', joinRoomSchema, (data, callback) => {
     const room = rooms.get(data.code.toUpperCase());
 
     if (!room) {
@@ -574,55 +603,162 @@ io.on('connection', (socket: Socket) => {
       return;
     }
 
-    if (room.gameState) {
-      callback({ success: false, error: 'Game already in progress' });
+    const refusal = getEntryRefusal(room, socket, data.playerName);
+    if (refusal) {
+      callback({ success: false, error: refusal });
+      return;
+    }
+
+    if (room.engine) {
+      callback({ success: false, error: 'Game already in progress - you can still watch' });
       return;
     }
 
     if (room.players.size >= 8) {
-      callback({ success: false, error: 'Room is full' });
+      callback({ success: false, error: 'Room is full - you can still watch' });
       return;
     }
 
-    const playerId = uuidv4();
-    room.players.set(playerId, { id: playerId, name: data.playerName, socketId: socket.id, ready: false });
+    const player = createPlayer(data.playerName, socket);
+    room.players.set(player.id, player);
     playerRooms.set(socket.id, data.code.toUpperCase());
     socket.join(data.code.toUpperCase());
 
-    callback({ success: true, code: data.code.toUpperCase(), playerId, isHost: false });
+    callback({
+      success: true,
+      code: data.code.toUpperCase(),
+      playerId: player.id,
+      reconnectToken: player.reconnectToken,
+      isHost: false,
+      config: room.config,
+    });
 
     // Notify others
-    io.to(data.code.toUpperCase()).emit('player_joined', {
-      players: Array.from(room.players.values()).map(p => ({ id: p.id, name: p.name, ready: p.ready })),
-    });
+    io.to(data.code.toUpperCase()).emit('player_joined', { players: getLobbyPlayers(room) });
+    socket.emit('spectators_changed', { spectators: getSpectators(room) });
 
     console.log(`${data.playerName} joined room ${data.code}`);
-  });
+  }, INVALID_REQUEST);
+
+  // Watch a room - allowed whether it is full or already playing
+  onValidated(socket, 'spectate_room', spectateRoomSchema, (data, callback) => {
+    const room = rooms.get(data.code.toUpperCase());
+
+    if (!room) {
+      callback({ success: false, error: 'Room not found' });
+      return;
+    }
+
+    const refusal = getEntryRefusal(room, socket, data.playerName);
+    if (refusal) {
+      callback({ success: false, error: refusal });
+      return;
+    }
+
+    const spectator: RoomSpectator = {
+      id: uuidv4(),
+      name: data.playerName,
+      socketId: socket.id,
+      sync: { seq: 0, view: null, patchesSinceSnapshot: 0 },
+    };
+    room.spectators.set(spectator.id, spectator);
+    playerRooms.set(socket.id, room.code);
+    socket.join(room.code);
+
+    callback({
+      success: true,
+      code: room.code,
+      spectatorId: spectator.id,
+      players: getLobbyPlayers(room),
+      config: room.config,
+      state: room.engine ? getStateForSpectator(room.engine.getState()) : null,
+      match: room.match?.getState() ?? null,
+    });
+
+    // Patches from here on build on this snapshot
+    if (room.engine) {
+      sendState(spectator, getStateForSpectator(room.engine.getState()), 'game_state_snapshot');
+    }
+    io.to(room.code).emit('spectators_changed', { spectators: getSpectators(room) });
+
+    console.log(`${data.playerName} is spectating room ${room.code}`);
+  }, INVALID_REQUEST);
+
+  // Reclaim a held seat after a dropped connection or a page refresh
+  onValidated(socket, 'rejoin_room', rejoinRoomSchema, (data, callback) => {
+    const room = rooms.get(data.code.toUpperCase());
+    const player = room?.players.get(data.playerId);
+
+    if (!room || !player || player.reconnectToken !== data.reconnectToken) {
+      callback({ success: false, error: 'Your seat is no longer available' });
+      return;
+    }
+
+    // A newer tab takes the seat over from an older socket that is still attached
+    if (player.connected && player.socketId !== socket.id) {
+      playerRooms.delete(player.socketId);
+      io.sockets.sockets.get(player.socketId)?.leave(room.code);
+    }
+
+    if (player.disconnectTimer) {
+      clearTimeout(player.disconnectTimer);
+      player.disconnectTimer = null;
+    }
+
+    player.socketId = socket.id;
+    player.clientId = socket.data.clientId;
+    player.connected = true;
+    playerRooms.set(socket.id, room.code);
+    socket.join(room.code);
+
+    callback({
+      success: true,
+      code: room.code,
+      playerId: player.id,
+      isHost: player.id === room.hostId,
+      players: getLobbyPlayers(room),
+      config: room.config,
+      locked: room.locked,
+      state: room.engine ? getStateForPlayer(room.engine.getState(), player.id) : null,
+      match: room.match?.getState() ?? null,
+    });
+
+    // Start the new socket from a snapshot; everyone else sees the player come
+    // back through the engine's state_changed broadcast
+    if (room.engine) {
+      sendState(player, getStateForPlayer(room.engine.getState(), player.id), 'game_state_snapshot');
+    }
+    stopBot(room, player.id);
+    room.engine?.setPlayerConnected(player.id, true);
+    socket.to(room.code).emit('player_joined', { players: getLobbyPlayers(room) });
+    socket.emit('spectators_changed', { spectators: getSpectators(room) });
+
+    console.log(`${player.name} rejoined room ${room.code}`);
+  }, INVALID_REQUEST);
 
   // Toggle ready
-  socket.on('toggle_ready', (data: { playerId: string }) => {
+  onValidated(socket, 'toggle_ready', toggleReadySchema, (data) => {
     const roomCode = playerRooms.get(socket.id);
     if (!roomCode) return;
 
     const room = rooms.get(roomCode);
     if (!room) return;
 
+    // Only the socket holding the seat can toggle it
     const player = room.players.get(data.playerId);
-    if (player) {
+    if (player && player.socketId === socket.id) {
       player.ready = !player.ready;
-      io.to(roomCode).emit('player_ready_changed', {
-        players: Array.from(room.players.values()).map(p => ({ id: p.id, name: p.name, ready: p.ready })),
-      });
+      io.to(roomCode).emit('player_ready_changed', { players: getLobbyPlayers(room) });
     }
   });
 
   // Update rules config
-  socket.on('update_rules', (data: { rules: Room['config']['enabledRules'] }) => {
+  onValidated(socket, 'update_rules', updateRulesSchema, (data) => {
     const roomCode = playerRooms.get(socket.id);
     if (!roomCode) return;
 
     const room = rooms.get(roomCode);
-    if (!room || room.gameState) return;
+    if (!room || room.engine) return;
 
     // Only host can change rules
     const playerEntry = Array.from(room.players.entries()).find(([_, p]) => p.socketId === socket.id);
@@ -632,6 +768,71 @@ io.on('connection', (socket: Socket) => {
     io.to(roomCode).emit('rules_updated', { rules: data.rules });
   });
 
+  // Update room settings (disconnect policy, turn timer...)
+  onValidated(socket, 'update_settings', updateSettingsSchema, (data) => {
+    const roomCode = playerRooms.get(socket.id);
+    if (!roomCode) return;
+
+    const room = rooms.get(roomCode);
+    if (!room || room.engine) return;
+
+    // Only host can change settings
+    const playerEntry = Array.from(room.players.entries()).find(([_, p]) => p.socketId === socket.id);
+    if (!playerEntry || playerEntry[0] !== room.hostId) return;
+
+    const settings: RoomSettings = {
+      disconnectPolicy: data.disconnectPolicy ?? room.config.disconnectPolicy,
+      botDifficulty: data.botDifficulty ?? room.config.botDifficulty,
+      turnTimeLimit: data.turnTimeLimit ?? room.config.turnTimeLimit,
+      stackDrawMode: data.stackDrawMode ?? room.config.stackDrawMode,
+      cardEffects: data.cardEffects ?? room.config.cardEffects,
+      targetScore: data.targetScore ?? room.config.targetScore,
+      matchMode: data.matchMode ?? room.config.matchMode,
+      ruleLifetime: data.ruleLifetime ?? room.config.ruleLifetime,
+      maxDrawsPerTurn: data.maxDrawsPerTurn ?? room.config.maxDrawsPerTurn,
+    };
+    room.config = { ...room.config, ...settings };
+    io.to(roomCode).emit('settings_updated', { settings });
+  });
+
+  // Remove a player from the room, optionally banning them for its lifetime
+  onValidated(socket, 'kick_player', kickPlayerSchema, (data) => {
+    const room = getHostedRoom(socket);
+    const target = room?.players.get(data.playerId);
+    if (!room || !target || target.id === room.hostId) return;
+
+    if (data.ban) {
+      room.bannedNames.add(target.name.toLowerCase());
+      room.bannedClients.add(target.clientId);
+    }
+
+    const targetSocket = target.connected ? io.sockets.sockets.get(target.socketId) : undefined;
+    if (targetSocket) {
+      targetSocket.emit('kicked', { banned: data.ban });
+      targetSocket.leave(room.code);
+    }
+    playerRooms.delete(target.socketId);
+    removePlayer(room, target.id);
+
+    console.log(`${target.name} was ${data.ban ? 'banned' : 'kicked'} from room ${room.code}`);
+  });
+
+  onValidated(socket, 'transfer_host', transferHostSchema, (data) => {
+    const room = getHostedRoom(socket);
+    const target = room?.players.get(data.playerId);
+    if (!room || !target || target.id === room.hostId) return;
+
+    setHost(room, target.id);
+  });
+
+  onValidated(socket, 'set_room_locked', setRoomLockedSchema, (data) => {
+    const room = getHostedRoom(socket);
+    if (!room) return;
+
+    room.locked = data.locked;
+    io.to(room.code).emit('room_lock_changed', { locked: room.locked });
+  });
+
   // Start game
   socket.on('start_game', () => {
     const roomCode = playerRooms.get(socket.id);
@@ -650,90 +851,205 @@ io.on('connection', (socket: Socket) => {
     }
 
     // Initialize game
-    room.gameState = initializeGame(room);
-
-    // Send state to each player (with hidden hands)
-    for (const [playerId, player] of room.players) {
-      const playerSocket = io.sockets.sockets.get(player.socketId);
-      if (playerSocket) {
-        playerSocket.emit('game_started', {
-          state: getStateForPlayer(room.gameState, playerId),
-          playerId,
-        });
-      }
+    room.match = createMatch(room);
+    startRound(room, room.match, room.match.createRoundEngine());
+
+    console.log(`Game started in room ${roomCode} (seed ${room.seed})`);
+  });
+
+  socket.on('next_round', () => {
+    const room = getHostedRoom(socket);
+    const match = room?.match;
+    if (!room || !match || match.isOver() || !match.isRoundOver()) return;
+
+    startRound(room, match, match.startNextRound());
+    console.log(`Round ${match.getState().round} started in room ${room.code} (seed ${room.seed})`);
+  });
+
+  // A client that missed a patch starts over from a full snapshot
+  socket.on('request_resync', () => {
+    const roomCode = playerRooms.get(socket.id);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!room?.engine) return;
+
+    const spectator = findSpectatorBySocket(room, socket.id);
+    if (spectator) {
+      sendState(spectator, getStateForSpectator(room.engine.getState()), 'game_state_snapshot');
+      return;
     }
 
-    console.log(`Game started in room ${roomCode}`);
+    const player = findPlayerBySocket(room, socket.id);
+    if (!player) return;
+    sendState(player, getStateForPlayer(room.engine.getState(), player.id), 'game_state_snapshot');
   });
 
   // Game action
-  socket.on('game_action', (action: any) => {
+  // Every action is acknowledged, with the reason when it is refused
+  onValidated(socket, 'game_action', gameActionSchema, (action, reply) => {
+    const reject = (code: RejectionCode, reason: string) => reply({ ok: false, code, reason });
+
     const roomCode = playerRooms.get(socket.id);
-    if (!roomCode) return;
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!room || !room.engine) return reject('not_in_game', 'You are not in a game');
 
-    const room = rooms.get(roomCode);
-    if (!room || !room.gameState) return;
+    if (findSpectatorBySocket(room, socket.id)) return reject('spectating', 'Spectators cannot play');
 
-    handleAction(room, action);
+    // A socket may only act for the seat it holds
+    const seat = findPlayerBySocket(room, socket.id);
+    if (!seat) return reject('not_in_game', 'You are not in a game');
+    if (action.playerId !== seat.id) return reject('not_your_seat', 'You can only play for yourself');
 
-    // Broadcast updated state to all players
-    for (const [playerId, player] of room.players) {
-      const playerSocket = io.sockets.sockets.get(player.socketId);
-      if (playerSocket) {
-        playerSocket.emit('game_state_updated', {
-          state: getStateForPlayer(room.gameState, playerId),
-        });
-      }
+    if (room.engine.getState().phase === 'game_over') return reject('game_over', 'The game is over');
+
+    // Time slaps on arrival, less the sender's round trip (the race reached
+    // them half a trip late and the slap took the other half to get here)
+    if (action.type === 'slap') {
+      action = { ...action, timestamp: Date.now() - (socketRtts.get(socket.id) ?? 0) };
     }
-  });
 
-  // Leave room
+    const validation = room.engine.validateAction(action);
+    if (!validation.valid) return reject(validation.code, validation.reason);
+
+    // The engine broadcasts the new state through its state_changed event. A
+    // bug in the rules must cost the sender their move, not everyone the server.
+    try {
+      room.engine.dispatch(action);
+    } catch (error) {
+      console.error(`Action ${action.type} failed in room ${room.code}:`, error);
+      return reject('action_failed', 'That move could not be made');
+    }
+    reply({ ok: true });
+  }, { ok: false, code: 'invalid_payload', reason: 'Malformed action' });
+
+  // Leave room (on purpose, so the seat is given up straight away)
   socket.on('leave_room', () => {
-    handleDisconnect(socket);
+    handleLeave(socket);
   });
 
   // Disconnect
   socket.on('disconnect', () => {
+    clearInterval(pingInterval);
+    socketRtts.delete(socket.id);
     handleDisconnect(socket);
     console.log(`Player disconnected: ${socket.id}`);
   });
 });
 
-function handleDisconnect(socket: Socket) {
+function findPlayerBySocket(room: Room, socketId: string): RoomPlayer | undefined {
+  return Array.from(room.players.values()).find(p => p.socketId === socketId);
+}
+
+// The room this socket is host of, if any
+function getHostedRoom(socket: GameSocket): Room | undefined {
+  const roomCode = playerRooms.get(socket.id);
+  const room = roomCode ? rooms.get(roomCode) : undefined;
+  if (!room || findPlayerBySocket(room, socket.id)?.id !== room.hostId) return undefined;
+  return room;
+}
+
+// Why someone may not join or watch this room, or null if they may
+function getEntryRefusal(room: Room, socket: GameSocket, name: string): string | null {
+  if (room.bannedNames.has(name.toLowerCase()) || room.bannedClients.has(socket.data.clientId)) {
+    return 'You have been banned from this room';
+  }
+  if (room.locked) return 'Room is locked';
+  return null;
+}
+
+function setHost(room: Room, playerId: string): void {
+  room.hostId = playerId;
+  io.to(room.code).emit('host_changed', { hostId: playerId, players: getLobbyPlayers(room) });
+  console.log(`Host of room ${room.code} is now ${room.players.get(playerId)?.name}`);
+}
+
+// Pass the host role on when the host drops or leaves: to the longest-seated
+// connected player, or to anyone left if the old host is gone for good
+function migrateHost(room: Room): void {
+  const seats = Array.from(room.players.values()).filter(p => p.id !== room.hostId);
+  const next = seats.find(p => p.connected) ?? (room.players.has(room.hostId) ? undefined : seats[0]);
+  if (next) setHost(room, next.id);
+}
+
+function findSpectatorBySocket(room: Room, socketId: string): RoomSpectator | undefined {
+  return Array.from(room.spectators.values()).find(s => s.socketId === socketId);
+}
+
+// Returns false if the socket wasn't spectating this room
+function removeSpectator(room: Room, socketId: string): boolean {
+  const spectator = findSpectatorBySocket(room, socketId);
+  if (!spectator) return false;
+
+  room.spectators.delete(spectator.id);
+  io.to(room.code).emit('spectators_changed', { spectators: getSpectators(room) });
+  return true;
+}
+
+// Dropped connection: hold the seat for a while so the player can rejoin
+function handleDisconnect(socket: GameSocket) {
   const roomCode = playerRooms.get(socket.id);
   if (!roomCode) return;
+  playerRooms.delete(socket.id);
 
   const room = rooms.get(roomCode);
-  if (!room) return;
-
-  // Find and remove player
-  for (const [playerId, player] of room.players) {
-    if (player.socketId === socket.id) {
-      room.players.delete(playerId);
-
-      // If game in progress, mark as disconnected instead
-      if (room.gameState) {
-        const gamePlayer = room.gameState.players.find(p => p.id === playerId);
-        if (gamePlayer) {
-          gamePlayer.isConnected = false;
-        }
-      }
+  if (!room || removeSpectator(room, socket.id)) return;
 
-      break;
-    }
-  }
+  const player = findPlayerBySocket(room, socket.id);
+  if (!player) return;
+
+  player.connected = false;
+  player.disconnectTimer = setTimeout(() => removePlayer(room, player.id), RECONNECT_GRACE_MS);
+  if (player.id === room.hostId) migrateHost(room);
 
+  // If game in progress, mark as disconnected instead
+  room.engine?.setPlayerConnected(player.id, false);
+  startBot(room, player.id);
+
+  io.to(roomCode).emit('player_left', { players: getLobbyPlayers(room) });
+}
+
+function handleLeave(socket: GameSocket) {
+  const roomCode = playerRooms.get(socket.id);
+  if (!roomCode) return;
   playerRooms.delete(socket.id);
+  socket.leave(roomCode);
+
+  const room = rooms.get(roomCode);
+  if (!room || removeSpectator(room, socket.id)) return;
+
+  const player = findPlayerBySocket(room, socket.id);
+  if (player) {
+    removePlayer(room, player.id);
+  }
+}
+
+function removePlayer(room: Room, playerId: string) {
+  const player = room.players.get(playerId);
+  if (!player) return;
+
+  if (player.disconnectTimer) {
+    clearTimeout(player.disconnectTimer);
+  }
+  room.players.delete(playerId);
+
+  // If game in progress, mark as disconnected instead
+  room.engine?.setPlayerConnected(playerId, false);
+  startBot(room, playerId);
 
   // If room is empty, delete it
   if (room.players.size === 0) {
-    rooms.delete(roomCode);
-    console.log(`Room ${roomCode} deleted (empty)`);
+    clearBotTimers(room);
+    if (room.turnTimer) clearTimeout(room.turnTimer);
+    for (const spectator of room.spectators.values()) {
+      playerRooms.delete(spectator.socketId);
+      io.sockets.sockets.get(spectator.socketId)?.emit('error', { message: 'The room has closed' });
+    }
+    io.socketsLeave(room.code);
+    rooms.delete(room.code);
+    console.log(`Room ${room.code} deleted (empty)`);
   } else {
+    if (playerId === room.hostId) migrateHost(room);
     // Notify others
-    io.to(roomCode).emit('player_left', {
-      players: Array.from(room.players.values()).map(p => ({ id: p.id, name: p.name, ready: p.ready })),
-    });
+    io.to(room.code).emit('player_left', { players: getLobbyPlayers(room) });
   }
 }
 
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import type { ClientToServerEvents, GameAction } from 'spicy-uno-shared';
+
+// Runtime checks for everything a client sends. The TypeScript contract in
+// spicy-uno-shared only holds if the client is ours and up to date, so every
+// inbound payload goes through one of these before a handler sees it.
+
+type Payload<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0];
+
+const playerName = z.string().trim().min(1).max(20);
+const roomCode = z.string().trim().length(4);
+const id = z.string().min(1).max(64);
+
+// A wild is played as (or turned into) one of these, never 'wild' itself
+const chosenColor = z.enum(['red', 'yellow', 'green', 'blue']);
+
+const cardMatcher = z.object({
+  color: chosenColor.optional(),
+  value: z.union([z.literal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]), z.enum(['skip', 'reverse', 'draw2', 'wild', 'wild_draw4'])]).optional(),
+});
+
+// Whether the combination makes sense is up to the engine (validateRuleEffect)
+const ruleEffect = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('others_draw'), cards: cardMatcher, count: z.number().int().min(1).max(4) }),
+  z.object({ kind: z.literal('also_reverse'), cards: cardMatcher }),
+  z.object({ kind: z.literal('also_skip'), cards: cardMatcher }),
+  z.object({ kind: z.literal('play_on_anything'), cards: cardMatcher }),
+]);
+
+const cardEffect = z.enum(['none', 'silence', 'custom_rule', 'slap', 'swap_hands', 'rotate_hands']);
+
+const enabledRules = z.object({
+  silence: z.boolean(),
+  customRule: z.boolean(),
+  stackDraw: z.boolean(),
+  stackSkip: z.boolean(),
+  slap: z.boolean(),
+  jumpIn: z.boolean(),
+  unoCall: z.boolean(),
+  offerCard: z.boolean(),
+  playAfterDraw: z.boolean(),
+  drawUntilPlayable: z.boolean(),
+  passAfterDraws: z.boolean(),
+  challengeDraw4: z.boolean(),
+  ruleVote: z.boolean(),
+  ruleRepeal: z.boolean(),
+});
+
+export const createRoomSchema: z.ZodType<Payload<'create_room'>> = z.object({ playerName });
+
+export const joinRoomSchema: z.ZodType<Payload<'join_room'>> = z.object({ code: roomCode, playerName });
+
+export const spectateRoomSchema: z.ZodType<Payload<'spectate_room'>> = z.object({ code: roomCode, playerName });
+
+export const rejoinRoomSchema: z.ZodType<Payload<'rejoin_room'>> = z.object({ code: roomCode, playerId: id, reconnectToken: id });
+
+export const toggleReadySchema: z.ZodType<Payload<'toggle_ready'>> = z.object({ playerId: id });
+
+export const updateRulesSchema: z.ZodType<Payload<'update_rules'>> = z.object({ rules: enabledRules });
+
+export const updateSettingsSchema: z.ZodType<Payload<'update_settings'>> = z.object({
+  disconnectPolicy: z.enum(['skip', 'bot']).optional(),
+  botDifficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  turnTimeLimit: z.number().int().min(0).max(300).optional(),
+  targetScore: z.number().int().min(0).max(1000).optional(),
+  stackDrawMode: z.enum(['same', 'draw2_on_draw4', 'draw4_on_draw2', 'any']).optional(),
+  cardEffects: z.record(z.string().regex(/^[0-9]$/), cardEffect).optional(),
+  matchMode: z.enum(['standard', 'elimination', 'reverse']).optional(),
+  ruleLifetime: z.number().int().min(1).max(10).optional(),
+  maxDrawsPerTurn: z.number().int().min(1).max(10).optional(),
+});
+
+export const kickPlayerSchema: z.ZodType<Payload<'kick_player'>> = z.object({ playerId: id, ban: z.boolean() });
+
+export const transferHostSchema: z.ZodType<Payload<'transfer_host'>> = z.object({ playerId: id });
+
+export const setRoomLockedSchema: z.ZodType<Payload<'set_room_locked'>> = z.object({ locked: z.boolean() });
+
+export const gameActionSchema: z.ZodType<GameAction> = z.object({
+  type: z.enum([
+    'play_card',
+    'draw_card',
+    'call_uno',
+    'catch_uno',
+    'slap',
+    'create_custom_rule',
+    'request_card',
+    'decline_request',
+    'offer_card',
+    'accept_offer',
+    'decline_offer',
+    'report_violation',
+    'select_color',
+    'pass_turn',
+    'jump_in',
+    'accept_draw4',
+    'challenge_draw4',
+    'swap_hands',
+    'repeal_custom_rule',
+    'vote_rule',
+    'vote_verdict',
+  ]),
+  playerId: id,
+  cardId: id.optional(),
+  targetPlayerId: id.optional(),
+  wildColor: chosenColor.optional(),
+  ruleId: id.optional(),
+  vote: z.boolean().optional(),
+  customRule: z
+    .object({
+      text: z.string().trim().min(1).max(100),
+      type: z.enum(['behavioral', 'speech', 'penalty', 'action']),
+      createdBy: id,
+      effect: ruleEffect.optional(),
+      penalty: z.number().int().min(1).max(4).optional(),
+    })
+    .optional(),
+  timestamp: z.number().optional(),
+});
@@ -1,7 +1,18 @@
-import type { GameState, GameAction, Card, CardColor, Player } from '../types/game.types';
-import { isPlayable, getCurrentColor } from '../engine/CardDeck';
-
-export type AIDifficulty = 'easy' | 'medium' | 'hard';
+import type { GameState, GameAction, GameConfig, Card, CardColor, Player, AIDifficulty } from '../types/game.types';
+import { getCurrentColor, canStackDraw } from '../engine/CardDeck';
+import type { RandomSource } from '../engine/Random';
+import { isPlayerOut } from '../engine/constants';
+import type { AIContext } from '../engine/effects/CardEffectModule';
+import { findCardEffect, findEffectPhase } from '../engine/effects/CardEffectRegistry';
+import { isPlayableUnderRules } from '../engine/effects/EnforcedRules';
+
+// Standard deck makeup, for guessing what an opponent might be holding
+const DECK_SIZE = 108;
+const CARDS_PER_COLOR = 25;
+
+// Challenging a +4 risks drawing 6 instead of 4 to make the offender draw 4 instead,
+// so it pays off once the bluff is more likely than 1 in 3
+const CHALLENGE_THRESHOLD = 1 / 3;
 
 export interface AIDecision {
   action: GameAction;
@@ -11,16 +22,29 @@ export interface AIDecision {
 export class AIPlayer {
   readonly id: string;
   readonly difficulty: AIDifficulty;
-
-  constructor(id: string, difficulty: AIDifficulty) {
+  private random: RandomSource;
+  private config: GameConfig | null;
+
+  // Pass a seeded source to make the AI's choices reproducible
+  constructor(
+    id: string,
+    difficulty: AIDifficulty,
+    random: RandomSource = Math.random,
+    config: GameConfig | null = null  // The game's, so the AI knows what stacks and what each card sets off
+  ) {
     this.id = id;
     this.difficulty = difficulty;
+    this.random = random;
+    this.config = config;
   }
 
   makeDecision(state: GameState): AIDecision | null {
     const player = state.players.find((p) => p.id === this.id);
     if (!player) return null;
 
+    // Out of the round, unless our last card left something to finish
+    if (isPlayerOut(state, this.id) && state.pendingAction?.targetPlayer !== this.id) return null;
+
     // Check if it's our turn
     const isMyTurn = state.players[state.currentPlayerIndex].id === this.id;
     if (!isMyTurn && state.phase === 'playing') return null;
@@ -30,29 +54,49 @@ export class AIPlayer {
       case 'playing':
         return this.decidePlay(state, player);
 
-      case 'slap_race':
-        return this.decideSlap(state);
+      case 'draw4_challenge':
+        return state.pendingAction?.targetPlayer === this.id ? this.decideChallenge(state, player) : null;
+
+      // Asked for a card: keep it - nobody wins by handing cards away
+      case 'card_request':
+        return state.pendingAction?.targetPlayer === this.id
+          ? { action: { type: 'decline_request', playerId: this.id }, delay: this.getThinkingDelay() }
+          : null;
 
-      case 'custom_rule_creation':
-        return this.decideCustomRule(state);
+      // Offered the card we asked for (as a stand-in for a player who asked): take it
+      case 'offering_card':
+        return state.pendingAction?.targetPlayer === this.id
+          ? { action: { type: 'accept_offer', playerId: this.id }, delay: this.getThinkingDelay() }
+          : null;
 
       default:
-        return null;
+        // Phases a card effect left the game in (slap races, hand swaps...)
+        return findEffectPhase(state.phase)?.decide?.(state, this.getContext()) ?? null;
     }
   }
 
+  private getContext(): AIContext {
+    return {
+      id: this.id,
+      difficulty: this.difficulty,
+      random: this.random,
+      config: this.config,
+      thinkingDelay: () => this.getThinkingDelay(),
+    };
+  }
+
   private decidePlay(state: GameState, player: Player): AIDecision {
     const topCard = state.discardPile[state.discardPile.length - 1];
-    const currentColor = getCurrentColor(topCard);
-    const validMoves = player.hand.filter((card) => isPlayable(card, topCard, currentColor));
+    const currentColor = getCurrentColor(topCard, state.selectedWildColor ?? undefined);
+    const validMoves = player.hand.filter((card) =>
+      isPlayableUnderRules(card, topCard, currentColor, state.customRules)
+    );
 
     // Must draw if stacked and can't counter
     if (state.stackedDrawAmount > 0) {
-      const canCounter = validMoves.some(
-        (c) => c.value === 'draw2' || c.value === 'wild_draw4'
-      );
+      const counterCard = player.hand.find((c) => canStackDraw(c, topCard, this.config?.stackDrawMode));
 
-      if (!canCounter) {
+      if (!counterCard) {
         return {
           action: { type: 'draw_card', playerId: this.id },
           delay: this.getThinkingDelay(),
@@ -60,12 +104,25 @@ export class AIPlayer {
       }
 
       // Counter with a draw card
-      const counterCard = validMoves.find(
-        (c) => c.value === 'draw2' || c.value === 'wild_draw4'
-      )!;
       return this.playCardDecision(counterCard);
     }
 
+    // Having drawn a playable card, play it
+    if (state.drawnCardId) {
+      const drawn = player.hand.find((c) => c.id === state.drawnCardId);
+      return drawn
+        ? this.playCardDecision(drawn)
+        : { action: { type: 'pass_turn', playerId: this.id }, delay: this.getThinkingDelay() };
+    }
+
+    // Pass stacked skips on if we can, otherwise take them
+    if (state.stackedSkipCount > 0) {
+      const skip = player.hand.find((c) => c.value === 'skip');
+      return skip
+        ? this.playCardDecision(skip)
+        : { action: { type: 'draw_card', playerId: this.id }, delay: this.getThinkingDelay() };
+    }
+
     // No valid moves, must draw
     if (validMoves.length === 0) {
       return {
@@ -83,7 +140,7 @@ export class AIPlayer {
     // Different strategies based on difficulty
     if (this.difficulty === 'easy') {
       // Random valid move
-      return validMoves[Math.floor(Math.random() * validMoves.length)];
+      return validMoves[Math.floor(this.random() * validMoves.length)];
     }
 
     if (this.difficulty === 'medium') {
@@ -133,27 +190,9 @@ export class AIPlayer {
         }
       }
 
-      // Prefer action cards when opponents have few cards
-      const minOpponentCards = Math.min(
-        ...state.players.filter((p) => p.id !== this.id).map((p) => p.hand.length)
-      );
-
-      if (minOpponentCards <= 3) {
-        if (card.value === 'skip' || card.value === 'reverse') score += 30;
-        if (card.value === 'draw2') score += 40;
-        if (card.value === 'wild_draw4') score += 50;
-      }
-
-      // Consider special spicy rules
-      if (card.value === 5) {
-        // 5 triggers slap - we might lose
-        score -= 10;
-      }
-
-      if (card.value === 7) {
-        // 7 triggers silence - could be strategic
-        score += 5;
-      }
+      // What the card sets off (action cards when opponents are low, spicy rules...)
+      const effect = this.config && findCardEffect(card, this.config);
+      score += effect?.aiHint?.(card, state, this.id) ?? 0;
 
       // Play high numbers first (harder to play later)
       if (typeof card.value === 'number') {
@@ -187,51 +226,36 @@ export class AIPlayer {
   private pickWildColor(): CardColor {
     // TODO: Could be smarter and pick based on remaining hand
     const colors: CardColor[] = ['red', 'blue', 'green', 'yellow'];
-    return colors[Math.floor(Math.random() * colors.length)];
+    return colors[Math.floor(this.random() * colors.length)];
   }
 
-  private decideSlap(_state: GameState): AIDecision {
-    // AI reaction time based on difficulty
-    const baseDelay = {
-      easy: 1500,
-      medium: 800,
-      hard: 200,
-    }[this.difficulty];
+  private decideChallenge(state: GameState, player: Player): AIDecision {
+    const { offenderId, color } = state.pendingAction!;
+    const offender = state.players.find((p) => p.id === offenderId);
 
-    const variance = Math.random() * 500;
+    // Easy just guesses
+    let bluffChance = this.random();
 
-    return {
-      action: {
-        type: 'slap',
-        playerId: this.id,
-        timestamp: Date.now() + baseDelay + variance,
-      },
-      delay: baseDelay + variance,
-    };
-  }
+    if (this.difficulty !== 'easy' && offender && color) {
+      let colorShare = CARDS_PER_COLOR / DECK_SIZE;
 
-  private decideCustomRule(_state: GameState): AIDecision {
-    const rules = [
-      { text: 'Must say thank you when drawing', type: 'speech' as const },
-      { text: 'No pointing at people', type: 'behavioral' as const },
-      { text: 'Knock before playing a card', type: 'action' as const },
-      { text: 'Draw 1 if you touch your face', type: 'penalty' as const },
-      { text: 'Must speak in an accent', type: 'behavioral' as const },
-    ];
+      // Hard also rules out the cards of that color it can see
+      if (this.difficulty === 'hard') {
+        const visible = [...player.hand, ...state.discardPile];
+        const seen = visible.filter((c) => c.color === color).length;
+        colorShare = Math.max(0, CARDS_PER_COLOR - seen) / Math.max(1, DECK_SIZE - visible.length);
+      }
 
-    const rule = rules[Math.floor(Math.random() * rules.length)];
+      // Chance at least one of the offender's cards is the color in play
+      bluffChance = 1 - Math.pow(1 - colorShare, offender.hand.length);
+    }
 
     return {
       action: {
-        type: 'create_custom_rule',
+        type: bluffChance > CHALLENGE_THRESHOLD ? 'challenge_draw4' : 'accept_draw4',
         playerId: this.id,
-        customRule: {
-          text: rule.text,
-          type: rule.type,
-          createdBy: this.id,
-        },
       },
-      delay: 1500,
+      delay: this.getThinkingDelay(),
     };
   }
 
@@ -243,7 +267,7 @@ export class AIPlayer {
     }[this.difficulty];
 
     // Add some randomness to feel more human
-    return baseDelay + Math.random() * 500;
+    return baseDelay + this.random() * 500;
   }
 
   // Check if AI should call UNO
@@ -258,7 +282,7 @@ export class AIPlayer {
       hard: 0.98,
     }[this.difficulty];
 
-    return Math.random() < rememberChance;
+    return this.random() < rememberChance;
   }
 
   // Check if AI should catch someone's UNO
@@ -273,6 +297,6 @@ export class AIPlayer {
       hard: 0.9,
     }[this.difficulty];
 
-    return Math.random() < catchChance;
+    return this.random() < catchChance;
   }
 }
@@ -1,52 +1,54 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Card, CardColor, CardValue, NumberValue, ActionValue } from '../types/game.types';
+import type { Card, CardColor, CardValue, NumberValue, ActionValue, DrawStackMode } from '../types/game.types';
+import type { RandomSource } from './Random';
 
 const COLORS: CardColor[] = ['red', 'yellow', 'green', 'blue'];
 const NUMBERS: NumberValue[] = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
 const ACTIONS: ActionValue[] = ['skip', 'reverse', 'draw2'];
 
-export function createCard(color: CardColor, value: CardValue): Card {
+export function createCard(color: CardColor, value: CardValue, id: string = uuidv4()): Card {
   return {
-    id: uuidv4(),
+    id,
     color,
     value,
   };
 }
 
-export function createDeck(): Card[] {
+// Pass createId to get reproducible card ids (see randomId in Random.ts)
+export function createDeck(createId: () => string = uuidv4): Card[] {
   const deck: Card[] = [];
 
   // Add colored cards
   for (const color of COLORS) {
     // One 0 per color
-    deck.push(createCard(color, 0));
+    deck.push(createCard(color, 0, createId()));
 
     // Two of each 1-9 per color
     for (const num of NUMBERS.slice(1)) {
-      deck.push(createCard(color, num));
-      deck.push(createCard(color, num));
+      deck.push(createCard(color, num, createId()));
+      deck.push(createCard(color, num, createId()));
     }
 
     // Two of each action card per color
     for (const action of ACTIONS) {
-      deck.push(createCard(color, action));
-      deck.push(createCard(color, action));
+      deck.push(createCard(color, action, createId()));
+      deck.push(createCard(color, action, createId()));
     }
   }
 
   // Add wild cards (4 of each)
   for (let i = 0; i < 4; i++) {
-    deck.push(createCard('wild', 'wild'));
-    deck.push(createCard('wild', 'wild_draw4'));
+    deck.push(createCard('wild', 'wild', createId()));
+    deck.push(createCard('wild', 'wild_draw4', createId()));
   }
 
   return deck;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: RandomSource = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -124,6 +126,11 @@ export function getCurrentColor(topCard: Card, selectedColor?: CardColor): CardC
   return topCard.color === 'wild' ? 'red' : topCard.color;
 }
 
+// A color a wild can be turned into (anything but 'wild' itself)
+export function isChosenColor(color: CardColor | undefined): boolean {
+  return color !== undefined && COLORS.includes(color);
+}
+
 export function isDrawCard(card: Card): boolean {
   return card.value === 'draw2' || card.value === 'wild_draw4';
 }
@@ -141,3 +148,26 @@ export function getDrawAmount(card: Card): number {
   if (card.value === 'wild_draw4') return 4;
   return 0;
 }
+
+// Draw cards that can be stacked on a pending draw started by `topCard`
+export function getStackableDrawValues(topCard: Card, mode: DrawStackMode = 'same'): CardValue[] {
+  if (!isDrawCard(topCard)) return [];
+  if (mode === 'any') return ['draw2', 'wild_draw4'];
+  if (mode === 'draw2_on_draw4' && topCard.value === 'wild_draw4') return ['wild_draw4', 'draw2'];
+  if (mode === 'draw4_on_draw2' && topCard.value === 'draw2') return ['draw2', 'wild_draw4'];
+  return [topCard.value];
+}
+
+export function canStackDraw(card: Card, topCard: Card, mode: DrawStackMode = 'same'): boolean {
+  return getStackableDrawValues(topCard, mode).includes(card.value);
+}
+
+// Standard UNO scoring: face value for numbers, 20 for action cards, 50 for wilds
+export function getCardPoints(card: Card): number {
+  if (typeof card.value === 'number') return card.value;
+  return card.color === 'wild' ? 50 : 20;
+}
+
+export function getHandPoints(hand: Card[]): number {
+  return hand.reduce((total, card) => total + getCardPoints(card), 0);
+}
@@ -0,0 +1,1152 @@
+import type {
+  GameState,
+  GameAction,
+  GameConfig,
+  Card,
+  Player,
+  CardColor,
+  ValidationResult,
+  GameEventType,
+  SlapRecord,
+  GameLog,
+  GameLogEntry,
+  EngineSnapshot,
+} from '../types/game.types';
+import {
+  createDeck,
+  shuffleDeck,
+  drawCards,
+  isExactMatch,
+  isSkipCard,
+  canStackDraw,
+  getCurrentColor,
+  isChosenColor,
+} from './CardDeck';
+import { EventBus } from './EventBus';
+import { SLAP_WINDOW_MS, isPlayerOut } from './constants';
+import type { EffectContext } from './effects/CardEffectModule';
+import { findCardEffect, findEffectAction, findEffectPhase } from './effects/CardEffectRegistry';
+import { applyCustomRules, isPlayableUnderRules } from './effects/EnforcedRules';
+import { resolveRuleVote } from './effects/CustomRule';
+import { resolveTribunal } from './effects/Tribunal';
+import { createSeededRandom, generateSeed, randomId, type SeededRandom } from './Random';
+
+const INITIAL_HAND_SIZE = 7;
+export const MAX_DRAWS_PER_TURN = 3;  // Default maxDrawsPerTurn
+export const GAME_LOG_VERSION = 3;
+
+export class GameEngine {
+  private state: GameState;
+  private eventBus: EventBus;
+  private config: GameConfig;
+  private seed: number;
+  private random: SeededRandom;
+  private log: GameLogEntry[] = [];
+  private effects: EffectContext;
+
+  // Pass a snapshot (e.g. from a saved game) to continue a game instead of dealing a new one
+  constructor(config: GameConfig, snapshot?: EngineSnapshot) {
+    this.config = config;
+    this.eventBus = new EventBus();
+    this.seed = config.seed ?? generateSeed();
+
+    // What card effect modules get to use of the engine
+    this.effects = {
+      config,
+      emit: (event, payload) => this.eventBus.emit(event, payload),
+      createId: () => this.createId(),
+      advanceTurn: (state) => this.advanceTurn(state),
+      forceDrawCards: (state, playerId, count) => this.forceDrawCards(state, playerId, count),
+      takeStackedSkips: (state) => this.takeStackedSkips(state),
+      getPlayersInRound: (state) => this.getPlayersInRound(state),
+      startTurnClock: () => this.startTurnClock(),
+      record: (entry) => this.log.push(entry),
+    };
+
+    if (snapshot) {
+      this.random = createSeededRandom(snapshot.randomState);
+      this.log = [...snapshot.log];
+      // The clock restarts for whoever was on turn when the snapshot was taken
+      this.state = { ...snapshot.state, ...this.startTurnClock() };
+    } else {
+      this.random = createSeededRandom(this.seed);
+      this.state = this.createInitialState(config);
+    }
+  }
+
+  // Ids come from the seeded stream so a replayed game gets identical ids
+  private createId(): string {
+    return randomId(this.random);
+  }
+
+  private createInitialState(config: GameConfig): GameState {
+    // Create and shuffle deck
+    let deck = shuffleDeck(createDeck(() => this.createId()), this.random);
+
+    // Create players
+    const players: Player[] = config.playerNames.map((name, index) => {
+      const id = config.playerIds?.[index] ?? this.createId();
+      return {
+        id,
+        name,
+        hand: [],
+        hasCalledUno: false,
+        isConnected: true,
+        isBotControlled: false,
+        isEliminated: config.eliminatedIds?.includes(id) ?? false,
+        type: index === 0 ? 'human' : (config.aiDifficulty ? 'ai' : 'human'),
+      };
+    });
+
+    // Deal cards to players
+    for (const player of players) {
+      if (player.isEliminated) continue;
+      const { drawn, remaining } = drawCards(deck, INITIAL_HAND_SIZE);
+      player.hand = drawn;
+      deck = remaining;
+    }
+
+    // Find first playable card for discard pile (skip action cards)
+    let firstCardIndex = deck.findIndex(
+      (card) => card.color !== 'wild' && typeof card.value === 'number'
+    );
+    if (firstCardIndex === -1) firstCardIndex = 0;
+
+    const firstCard = deck[firstCardIndex];
+    deck = [...deck.slice(0, firstCardIndex), ...deck.slice(firstCardIndex + 1)];
+
+    const state: GameState = {
+      id: this.createId(),
+      phase: 'playing',
+      players,
+      currentPlayerIndex: config.dealerIndex ?? players.length - 1,
+      direction: 1,
+      drawPile: deck,
+      discardPile: [firstCard],
+      pendingAction: null,
+      customRules: config.customRules ?? [],
+      silenceMode: false,
+      stackedDrawAmount: 0,
+      stackedSkipCount: 0,
+      drawnCardId: null,
+      ...this.startTurnClock(),
+      winner: null,
+      loser: null,
+      finishOrder: [],
+      lastAction: null,
+      selectedWildColor: null,
+    };
+
+    // The seat after the dealer starts
+    return { ...state, currentPlayerIndex: this.getNextSeat(state) };
+  }
+
+  // Public API
+  getState(): Readonly<GameState> {
+    return this.state;
+  }
+
+  // Seed that drives every shuffle - together with the actions it reproduces the game
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getConfig(): GameConfig {
+    return { ...this.config, seed: this.seed };
+  }
+
+  getLog(): readonly GameLogEntry[] {
+    return this.log;
+  }
+
+  // Serializable record of the game so far (seed + every accepted action)
+  exportLog(): GameLog {
+    return {
+      version: GAME_LOG_VERSION,
+      config: this.getConfig(),
+      entries: structuredClone(this.log),
+    };
+  }
+
+  // Rebuild a game from its log, optionally stopping after `upTo` entries
+  static fromLog(log: GameLog, upTo: number = log.entries.length): GameEngine {
+    if (log.version !== GAME_LOG_VERSION) {
+      throw new Error(`Unsupported game log version ${log.version}`);
+    }
+
+    const engine = new GameEngine(log.config);
+    for (const entry of log.entries.slice(0, upTo)) {
+      engine.applyLogEntry(entry);
+    }
+    return engine;
+  }
+
+  // States and log entries are never mutated, so a snapshot is just references
+  createSnapshot(): EngineSnapshot {
+    return {
+      state: this.state,
+      log: [...this.log],
+      randomState: this.random.getState(),
+    };
+  }
+
+  restoreSnapshot(snapshot: EngineSnapshot): void {
+    this.state = { ...snapshot.state, ...this.startTurnClock() };
+    this.log = [...snapshot.log];
+    this.random = createSeededRandom(snapshot.randomState);
+    this.eventBus.emit('state_changed', this.state);
+  }
+
+  // Re-apply one entry of an exported log
+  applyLogEntry(entry: GameLogEntry): GameState {
+    switch (entry.kind) {
+      case 'action':
+        return this.dispatch(entry.action);
+      case 'slap_resolved':
+        return this.resolveSlapRace(entry.slaps);
+      case 'vote_closed':
+        return this.closeVote();
+      case 'turn_skipped':
+        return this.skipTurn();
+      case 'reshuffle':
+        // The seeded engine reshuffles (and logs it) by itself
+        return this.state;
+      case 'verdict':
+        // Reached again by replaying the votes
+        return this.state;
+    }
+  }
+
+  getTopCard(): Card {
+    return this.state.discardPile[this.state.discardPile.length - 1];
+  }
+
+  getCurrentColor(): CardColor {
+    return getCurrentColor(this.getTopCard(), this.state.selectedWildColor ?? undefined);
+  }
+
+  getCurrentPlayer(): Player {
+    return this.state.players[this.state.currentPlayerIndex];
+  }
+
+  getValidMoves(playerId: string): Card[] {
+    const player = this.state.players.find((p) => p.id === playerId);
+    if (!player) return [];
+
+    const topCard = this.getTopCard();
+    const currentColor = this.getCurrentColor();
+
+    // If there's a stacked draw, only draw cards the stacking mode allows can be played
+    if (this.state.stackedDrawAmount > 0 && this.config.enabledRules.stackDraw) {
+      return player.hand.filter((card) => canStackDraw(card, topCard, this.config.stackDrawMode));
+    }
+
+    // Having drawn a playable card (playAfterDraw), it's that card or pass
+    if (this.state.drawnCardId && this.getCurrentPlayer().id === playerId) {
+      return player.hand.filter(
+        (card) =>
+          card.id === this.state.drawnCardId &&
+          isPlayableUnderRules(card, topCard, currentColor, this.state.customRules)
+      );
+    }
+
+    // Skips stacked on this player can only be passed on with another skip
+    if (this.state.stackedSkipCount > 0 && this.config.enabledRules.stackSkip) {
+      return player.hand.filter(isSkipCard);
+    }
+
+    return player.hand.filter((card) => isPlayableUnderRules(card, topCard, currentColor, this.state.customRules));
+  }
+
+  canJumpIn(playerId: string, cardId: string): boolean {
+    if (!this.config.enabledRules.jumpIn) return false;
+
+    const player = this.state.players.find((p) => p.id === playerId);
+    if (!player) return false;
+
+    const card = player.hand.find((c) => c.id === cardId);
+    if (!card) return false;
+
+    return isExactMatch(card, this.getTopCard());
+  }
+
+  // Get players who have no valid moves (for offer card feature)
+  getStuckPlayers(excludePlayerId?: string): Player[] {
+    if (!this.config.enabledRules.offerCard) return [];
+
+    return this.state.players.filter((player) => {
+      // Exclude the specified player (usually the one offering)
+      if (excludePlayerId && player.id === excludePlayerId) return false;
+      if (isPlayerOut(this.state, player.id)) return false;
+
+      // Check if they have no valid moves
+      const validMoves = this.getValidMoves(player.id);
+      return validMoves.length === 0;
+    });
+  }
+
+  // Event handling
+  on<T = unknown>(event: GameEventType, handler: (payload: T) => void): () => void {
+    return this.eventBus.on(event, handler);
+  }
+
+  off<T = unknown>(event: GameEventType, handler: (payload: T) => void): void {
+    this.eventBus.off(event, handler);
+  }
+
+  // Action validation
+  validateAction(action: GameAction): ValidationResult {
+    const { type, playerId, cardId } = action;
+    const player = this.state.players.find((p) => p.id === playerId);
+
+    if (!player) {
+      return { valid: false, code: 'player_not_found', reason: 'Player not found' };
+    }
+
+    // Players out of the round can only finish what their last card started (a 0's rule)
+    if (isPlayerOut(this.state, playerId) && this.state.pendingAction?.targetPlayer !== playerId) {
+      return { valid: false, code: 'player_out', reason: 'You are out of this round' };
+    }
+
+    // Nothing moves on until the Wild Draw Four is accepted or challenged
+    const isTurnAction = type === 'play_card' || type === 'draw_card' || type === 'pass_turn' || type === 'jump_in';
+    if (this.state.phase === 'draw4_challenge' && isTurnAction) {
+      return { valid: false, code: 'challenge_pending', reason: 'Waiting on the Wild Draw Four challenge' };
+    }
+    const heldBy = findEffectPhase(this.state.phase)?.holdsTurn;
+    if (heldBy && isTurnAction) {
+      return { valid: false, ...heldBy };
+    }
+
+    switch (type) {
+      case 'play_card': {
+        if (!cardId) {
+          return { valid: false, code: 'no_card_specified', reason: 'No card specified' };
+        }
+
+        const card = player.hand.find((c) => c.id === cardId);
+        if (!card) {
+          return { valid: false, code: 'card_not_in_hand', reason: 'Card not in hand' };
+        }
+
+        // Check if it's player's turn (unless jump-in)
+        const isCurrentPlayer = this.state.players[this.state.currentPlayerIndex].id === playerId;
+        if (!isCurrentPlayer) {
+          if (this.canJumpIn(playerId, cardId)) {
+            return { valid: true };
+          }
+          return { valid: false, code: 'not_your_turn', reason: 'Not your turn' };
+        }
+
+        // Check if card is playable
+        const validMoves = this.getValidMoves(playerId);
+        if (!validMoves.find((c) => c.id === cardId)) {
+          return { valid: false, code: 'card_not_playable', reason: 'Card cannot be played' };
+        }
+
+        // Wild cards need a color selection
+        if (card.color === 'wild' && !isChosenColor(action.wildColor)) {
+          return { valid: false, code: 'wild_color_required', reason: 'Must select a color for wild card' };
+        }
+
+        return { valid: true };
+      }
+
+      case 'jump_in': {
+        if (!this.config.enabledRules.jumpIn) {
+          return { valid: false, code: 'jump_in_disabled', reason: 'Jumping in is off at this table' };
+        }
+        if (!cardId) {
+          return { valid: false, code: 'no_card_specified', reason: 'No card specified' };
+        }
+
+        const card = player.hand.find((c) => c.id === cardId);
+        if (!card) {
+          return { valid: false, code: 'card_not_in_hand', reason: 'Card not in hand' };
+        }
+        if (this.state.phase !== 'playing' || !this.canJumpIn(playerId, cardId)) {
+          return { valid: false, code: 'cannot_jump_in', reason: 'Only an exact match can jump in' };
+        }
+        if (card.color === 'wild' && !isChosenColor(action.wildColor)) {
+          return { valid: false, code: 'wild_color_required', reason: 'Must select a color for wild card' };
+        }
+        return { valid: true };
+      }
+
+      case 'draw_card': {
+        const isCurrentPlayer = this.state.players[this.state.currentPlayerIndex].id === playerId;
+        if (!isCurrentPlayer) {
+          return { valid: false, code: 'not_your_turn', reason: 'Not your turn' };
+        }
+        if (this.state.drawnCardId) {
+          return { valid: false, code: 'already_drew', reason: 'Play the card you drew or pass' };
+        }
+        return { valid: true };
+      }
+
+      case 'call_uno': {
+        if (player.hand.length !== 2) {
+          return { valid: false, code: 'cannot_call_uno', reason: 'Can only call UNO with 2 cards' };
+        }
+        return { valid: true };
+      }
+
+      case 'catch_uno': {
+        const target = this.state.players.find((p) => p.id === action.targetPlayerId);
+        if (!target) {
+          return { valid: false, code: 'target_not_found', reason: 'Target player not found' };
+        }
+        if (target.hand.length !== 1 || target.hasCalledUno) {
+          return { valid: false, code: 'cannot_catch', reason: 'Cannot catch this player' };
+        }
+        return { valid: true };
+      }
+
+      case 'pass_turn': {
+        const isCurrentPlayer = this.state.players[this.state.currentPlayerIndex].id === playerId;
+        if (!isCurrentPlayer) {
+          return { valid: false, code: 'not_your_turn', reason: 'Not your turn' };
+        }
+        // Passing is for keeping a drawn card or taking stacked skips, never for dodging the draw
+        if (!this.state.drawnCardId && this.state.stackedSkipCount === 0) {
+          return { valid: false, code: 'cannot_pass', reason: 'Draw before passing' };
+        }
+        return { valid: true };
+      }
+
+      case 'request_card': {
+        if (!this.config.enabledRules.offerCard) {
+          return { valid: false, code: 'offer_card_disabled', reason: 'Asking for cards is off at this table' };
+        }
+        if (this.state.phase !== 'playing') {
+          return { valid: false, code: 'cannot_request', reason: 'Cards can only be asked for during play' };
+        }
+        if (this.state.players[this.state.currentPlayerIndex].id !== playerId) {
+          return { valid: false, code: 'not_your_turn', reason: 'Not your turn' };
+        }
+
+        const target = this.state.players.find((p) => p.id === action.targetPlayerId);
+        if (!target || isPlayerOut(this.state, target.id)) {
+          return { valid: false, code: 'target_not_found', reason: 'Target player not found' };
+        }
+        if (target.id === playerId) {
+          return { valid: false, code: 'cannot_request', reason: 'Cannot ask yourself for a card' };
+        }
+        if (target.hand.length === 0) {
+          return { valid: false, code: 'target_has_no_cards', reason: 'They have no cards to give' };
+        }
+        return { valid: true };
+      }
+
+      // Only the player who was asked answers a request
+      case 'offer_card':
+      case 'decline_request': {
+        if (this.state.phase !== 'card_request' || this.state.pendingAction?.targetPlayer !== playerId) {
+          return { valid: false, code: 'no_card_request', reason: 'Nobody asked you for a card' };
+        }
+        if (type === 'offer_card' && !player.hand.some((c) => c.id === cardId)) {
+          return { valid: false, code: 'card_not_in_hand', reason: 'Card not in hand' };
+        }
+        return { valid: true };
+      }
+
+      // Only the player who asked takes or leaves the offer
+      case 'accept_offer':
+      case 'decline_offer': {
+        if (this.state.phase !== 'offering_card' || this.state.pendingAction?.targetPlayer !== playerId) {
+          return { valid: false, code: 'no_offer', reason: 'No card offered to you' };
+        }
+        return { valid: true };
+      }
+
+      case 'select_color': {
+        if (this.state.phase !== 'color_selection') {
+          return { valid: false, code: 'not_selecting_color', reason: 'Not selecting color' };
+        }
+        if (!isChosenColor(action.wildColor)) {
+          return { valid: false, code: 'wild_color_required', reason: 'Pick red, yellow, green or blue' };
+        }
+        return { valid: true };
+      }
+
+      case 'accept_draw4':
+      case 'challenge_draw4': {
+        if (this.state.phase !== 'draw4_challenge' || this.state.pendingAction?.targetPlayer !== playerId) {
+          return { valid: false, code: 'no_challenge', reason: 'No Wild Draw Four to challenge' };
+        }
+        return { valid: true };
+      }
+
+      default: {
+        // Actions a card effect brought with it (slaps, hand swaps...)
+        const effectAction = findEffectAction(type);
+        return effectAction?.validate?.(this.state, action, this.effects) ?? { valid: true };
+      }
+    }
+  }
+
+  // Main action dispatcher
+  dispatch(action: GameAction): GameState {
+    const validation = this.validateAction(action);
+    if (!validation.valid) {
+      this.eventBus.emit('action_rejected', { action, code: validation.code, reason: validation.reason });
+      return this.state;
+    }
+
+    // Logged first, so whatever the action records while it runs (a verdict,
+    // a reshuffle) follows it in the log
+    const logLength = this.log.length;
+    this.log.push({ kind: 'action', action });
+    let newState: GameState;
+    try {
+      newState = this.applyAction(action);
+    } catch (error) {
+      // Leave no trace of an action that couldn't be applied
+      this.log.length = logLength;
+      throw error;
+    }
+    this.state = newState;
+    this.state.lastAction = action;
+
+    // Everyone has slapped - no need to wait for the deadline
+    if (
+      this.state.phase === 'slap_race' &&
+      this.state.pendingAction?.slaps?.length === this.getPlayersInRound().length
+    ) {
+      return this.resolveSlapRace();
+    }
+
+    this.eventBus.emit('state_changed', this.state);
+
+    return this.state;
+  }
+
+  private applyAction(action: GameAction): GameState {
+    const state = { ...this.state };
+
+    switch (action.type) {
+      case 'play_card':
+        return this.handlePlayCard(state, action);
+
+      case 'draw_card':
+        return this.handleDrawCard(state, action);
+
+      case 'call_uno':
+        return this.handleCallUno(state, action);
+
+      case 'catch_uno':
+        return this.handleCatchUno(state, action);
+
+      case 'select_color':
+        return this.handleSelectColor(state, action);
+
+      case 'request_card':
+        return this.handleRequestCard(state, action);
+
+      case 'decline_request':
+        return this.handleDeclineRequest(state, action);
+
+      case 'offer_card':
+        return this.handleOfferCard(state, action);
+
+      case 'accept_offer':
+        return this.handleAcceptOffer(state, action);
+
+      case 'decline_offer':
+        return this.handleDeclineOffer(state, action);
+
+      case 'pass_turn':
+        return this.handlePassTurn(state);
+
+      case 'jump_in':
+        return this.handleJumpIn(state, action);
+
+      case 'accept_draw4':
+        return this.handleAcceptDraw4(state, action);
+
+      case 'challenge_draw4':
+        return this.handleChallengeDraw4(state, action);
+
+      default:
+        return findEffectAction(action.type)?.apply(state, action, this.effects) ?? state;
+    }
+  }
+
+  private handlePlayCard(state: GameState, action: GameAction): GameState {
+    const { playerId, cardId, wildColor } = action;
+    const playerIndex = state.players.findIndex((p) => p.id === playerId);
+    const player = state.players[playerIndex];
+    const cardIndex = player.hand.findIndex((c) => c.id === cardId);
+    const card = player.hand[cardIndex];
+
+    // Remove card from hand
+    const newHand = [...player.hand.slice(0, cardIndex), ...player.hand.slice(cardIndex + 1)];
+    const newPlayers = [...state.players];
+    newPlayers[playerIndex] = { ...player, hand: newHand, hasCalledUno: false };
+
+    // Add card to discard pile
+    const newDiscardPile = [...state.discardPile, card];
+
+    let newState: GameState = {
+      ...state,
+      players: newPlayers,
+      discardPile: newDiscardPile,
+      // Set wild color
+      selectedWildColor: card.color === 'wild' && wildColor ? wildColor : null,
+    };
+
+    // Out of cards - the round is over, except in reverse mode until one player is left holding
+    if (newHand.length === 0) {
+      newState.finishOrder = [...state.finishOrder, playerId];
+      const holding = this.getPlayersInRound(newState);
+
+      if (this.config.matchMode !== 'reverse' || holding.length <= 1) {
+        newState.phase = 'game_over';
+        newState.winner = newState.finishOrder[0];
+        newState.loser = this.config.matchMode === 'reverse' ? (holding[0]?.id ?? null) : null;
+        this.eventBus.emit('game_over', {
+          winner: newPlayers.find((p) => p.id === newState.winner),
+          loser: holding[0] ?? null,
+        });
+        return newState;
+      }
+
+      this.eventBus.emit('player_finished', { player, place: newState.finishOrder.length });
+    }
+
+    // Enforced custom rules go off before the card does
+    newState = applyCustomRules(newState, card, playerIndex, this.effects);
+
+    // Before the +4 lands, the next player gets to call it out. Whether it was legal
+    // is settled now: holding the color that was in play makes it a bluff.
+    const isChallengeable =
+      card.value === 'wild_draw4' &&
+      this.config.enabledRules.challengeDraw4 &&
+      state.stackedDrawAmount === 0 &&
+      newHand.length > 0;
+
+    if (isChallengeable) {
+      const previousTop = state.discardPile[state.discardPile.length - 1];
+      const color = getCurrentColor(previousTop, state.selectedWildColor ?? undefined);
+      newState = this.advanceTurn(newState);
+      newState.phase = 'draw4_challenge';
+      newState.pendingAction = {
+        type: 'draw4_challenge',
+        targetPlayer: newState.players[newState.currentPlayerIndex].id,
+        offenderId: playerId,
+        color,
+        amount: 4,
+        illegal: newHand.some((c) => c.color === color),
+      };
+
+      this.eventBus.emit('card_played', { player, card });
+      return newState;
+    }
+
+    // Apply card effects
+    newState = this.applyCardEffects(newState, card, playerIndex);
+
+    this.eventBus.emit('card_played', { player, card });
+
+    return newState;
+  }
+
+  // Whatever rule the card sets off takes the turn from here; a plain card just passes it on
+  private applyCardEffects(state: GameState, card: Card, playerIndex: number): GameState {
+    const effect = findCardEffect(card, this.config);
+    return effect ? effect.apply(state, card, playerIndex, this.effects) : this.advanceTurn(state);
+  }
+
+  private handleDrawCard(state: GameState, action: GameAction): GameState {
+    const { playerId } = action;
+    let newState = { ...state };
+
+    // Facing stacked skips, not passing them on means taking them (nothing is drawn)
+    if (newState.stackedSkipCount > 0) {
+      return this.takeStackedSkips(newState);
+    }
+
+    // If there's a stacked draw amount, draw that many - that's the turn
+    if (newState.stackedDrawAmount > 0) {
+      const drawCount = newState.stackedDrawAmount;
+      newState = this.forceDrawCards(newState, playerId, drawCount);
+      newState.stackedDrawAmount = 0;
+
+      this.eventBus.emit('card_drawn', { playerId, count: drawCount });
+      return this.advanceTurn(newState);
+    }
+
+    // Draw one (or, drawing until playable, as many as it takes up to the limit)
+    const { playAfterDraw, drawUntilPlayable, passAfterDraws } = this.config.enabledRules;
+    const maxDraws = this.config.maxDrawsPerTurn ?? MAX_DRAWS_PER_TURN;
+    let drawCount = 0;
+    let drawn: Card | undefined;
+
+    do {
+      const handSize = this.getHand(newState, playerId).length;
+      newState = this.forceDrawCards(newState, playerId, 1);
+      const hand = this.getHand(newState, playerId);
+      if (hand.length === handSize) break; // Nothing left to draw
+
+      drawCount++;
+      drawn = hand[hand.length - 1];
+    } while (
+      drawUntilPlayable &&
+      !this.isPlayableOn(newState, drawn) &&
+      !(passAfterDraws && drawCount >= maxDraws)
+    );
+
+    this.eventBus.emit('card_drawn', { playerId, count: drawCount });
+
+    // The turn stays open so the drawn card can be played (or the player passes)
+    if (playAfterDraw && drawn && this.isPlayableOn(newState, drawn)) {
+      return { ...newState, drawnCardId: drawn.id };
+    }
+
+    return this.advanceTurn(newState);
+  }
+
+  private getHand(state: GameState, playerId: string): Card[] {
+    return state.players.find((p) => p.id === playerId)?.hand ?? [];
+  }
+
+  // Whether a card could go on the discard pile as it stands in `state`
+  private isPlayableOn(state: GameState, card: Card | undefined): boolean {
+    if (!card) return false;
+    const topCard = state.discardPile[state.discardPile.length - 1];
+    const currentColor = getCurrentColor(topCard, state.selectedWildColor ?? undefined);
+    return isPlayableUnderRules(card, topCard, currentColor, state.customRules);
+  }
+
+  private forceDrawCards(state: GameState, playerId: string, count: number): GameState {
+    const playerIndex = state.players.findIndex((p) => p.id === playerId);
+    const player = state.players[playerIndex];
+
+    let drawPile = [...state.drawPile];
+    let discardPile = [...state.discardPile];
+
+    // Reshuffle if needed
+    if (drawPile.length < count) {
+      const topCard = discardPile.pop()!;
+      drawPile = shuffleDeck([...drawPile, ...discardPile], this.random);
+      discardPile = [topCard];
+      this.log.push({ kind: 'reshuffle' });
+    }
+
+    const { drawn, remaining } = drawCards(drawPile, count);
+    const newHand = [...player.hand, ...drawn];
+
+    const newPlayers = [...state.players];
+    newPlayers[playerIndex] = { ...player, hand: newHand };
+
+    return {
+      ...state,
+      players: newPlayers,
+      drawPile: remaining,
+      discardPile,
+    };
+  }
+
+  private handleCallUno(state: GameState, action: GameAction): GameState {
+    const { playerId } = action;
+    const playerIndex = state.players.findIndex((p) => p.id === playerId);
+
+    const newPlayers = [...state.players];
+    newPlayers[playerIndex] = { ...newPlayers[playerIndex], hasCalledUno: true };
+
+    this.eventBus.emit('uno_called', { playerId });
+
+    return {
+      ...state,
+      players: newPlayers,
+    };
+  }
+
+  private handleCatchUno(state: GameState, action: GameAction): GameState {
+    const { targetPlayerId } = action;
+    if (!targetPlayerId) return state;
+
+    // Target draws 2 cards as penalty
+    const newState = this.forceDrawCards(state, targetPlayerId, 2);
+
+    this.eventBus.emit('uno_caught', { targetPlayerId, catcherId: action.playerId });
+
+    return newState;
+  }
+
+  private handleSelectColor(state: GameState, action: GameAction): GameState {
+    const updatedState: GameState = {
+      ...state,
+      phase: 'playing',
+      pendingAction: null,
+      selectedWildColor: action.wildColor ?? state.selectedWildColor,
+    };
+    const newState = this.advanceTurn(updatedState);
+
+    return newState;
+  }
+
+  // Player requests a card from another player
+  private handleRequestCard(state: GameState, action: GameAction): GameState {
+    if (!this.config.enabledRules.offerCard) return state;
+    if (!action.targetPlayerId) return state;
+
+    // Can't request from yourself
+    if (action.playerId === action.targetPlayerId) return state;
+
+    // Target must have cards to give
+    const target = state.players.find((p) => p.id === action.targetPlayerId);
+    if (!target || target.hand.length === 0) return state;
+
+    const newState: GameState = {
+      ...state,
+      phase: 'card_request',
+      pendingAction: {
+        type: 'card_request',
+        requesterId: action.playerId,
+        targetPlayer: action.targetPlayerId,
+      },
+    };
+
+    this.eventBus.emit('card_requested', {
+      requesterId: action.playerId,
+      targetId: action.targetPlayerId,
+    });
+
+    return newState;
+  }
+
+  // Asked player declines to give a card
+  private handleDeclineRequest(state: GameState, action: GameAction): GameState {
+    if (state.phase !== 'card_request' || !state.pendingAction) return state;
+    if (state.pendingAction.targetPlayer !== action.playerId) return state;
+
+    this.eventBus.emit('request_declined', {
+      requesterId: state.pendingAction.requesterId,
+      declinerId: action.playerId,
+    });
+
+    return {
+      ...state,
+      phase: 'playing',
+      pendingAction: null,
+    };
+  }
+
+  // Player offers a card in response to a request
+  private handleOfferCard(state: GameState, action: GameAction): GameState {
+    if (!this.config.enabledRules.offerCard) return state;
+    if (!action.cardId) return state;
+
+    // Must be in card_request phase with this player as the target
+    if (state.phase !== 'card_request' || !state.pendingAction) return state;
+    if (state.pendingAction.targetPlayer !== action.playerId) return state;
+
+    const requesterId = state.pendingAction.requesterId;
+    if (!requesterId) return state;
+
+    const newState: GameState = {
+      ...state,
+      phase: 'offering_card',
+      pendingAction: {
+        type: 'offer_decision',
+        offererId: action.playerId,
+        targetPlayer: requesterId,  // The requester is now the target of the offer
+        offeredCardId: action.cardId,
+        requesterId: requesterId,
+      },
+    };
+
+    this.eventBus.emit('card_offered', {
+      offererId: action.playerId,
+      targetId: requesterId,
+    });
+
+    return newState;
+  }
+
+  private handleAcceptOffer(state: GameState, _action: GameAction): GameState {
+    if (!state.pendingAction || state.pendingAction.type !== 'offer_decision') return state;
+
+    const { offererId, offeredCardId, targetPlayer } = state.pendingAction;
+    if (!offererId || !offeredCardId || !targetPlayer) return state;
+
+    const offererIndex = state.players.findIndex((p) => p.id === offererId);
+    const targetIndex = state.players.findIndex((p) => p.id === targetPlayer);
+
+    const offerer = state.players[offererIndex];
+    const target = state.players[targetIndex];
+
+    const cardIndex = offerer.hand.findIndex((c) => c.id === offeredCardId);
+    if (cardIndex === -1) return { ...state, phase: 'playing', pendingAction: null };
+    const card = offerer.hand[cardIndex];
+
+    // Remove card from offerer
+    const newOffererHand = [
+      ...offerer.hand.slice(0, cardIndex),
+      ...offerer.hand.slice(cardIndex + 1),
+    ];
+
+    // Add card to target
+    const newTargetHand = [...target.hand, card];
+
+    const newPlayers = [...state.players];
+    newPlayers[offererIndex] = { ...offerer, hand: newOffererHand };
+    newPlayers[targetIndex] = { ...target, hand: newTargetHand };
+
+    this.eventBus.emit('offer_responded', { accepted: true, card });
+
+    return {
+      ...state,
+      phase: 'playing',
+      pendingAction: null,
+      players: newPlayers,
+    };
+  }
+
+  private handleDeclineOffer(state: GameState, _action: GameAction): GameState {
+    this.eventBus.emit('offer_responded', { accepted: false });
+
+    return {
+      ...state,
+      phase: 'playing',
+      pendingAction: null,
+    };
+  }
+
+  // Taking it: the +4 goes off as if it had never been held up. It lands on the
+  // challenged player - an enforced rule may already have skipped past the
+  // offender's neighbour - so it is dealt from the seat before them.
+  private handleAcceptDraw4(state: GameState, _action: GameAction): GameState {
+    const { offenderId, targetPlayer } = state.pendingAction!;
+    const offenderIndex = state.players.findIndex((p) => p.id === offenderId);
+    const targetIndex = state.players.findIndex((p) => p.id === targetPlayer);
+    const card = state.discardPile[state.discardPile.length - 1];
+
+    return this.applyCardEffects(
+      { ...state, phase: 'playing', pendingAction: null, currentPlayerIndex: this.getPreviousSeat(state, targetIndex) },
+      card,
+      offenderIndex
+    );
+  }
+
+  // A bluff costs the offender the 4 cards and the challenger plays on as normal.
+  // A wrong call costs the challenger 6 and their turn.
+  private handleChallengeDraw4(state: GameState, action: GameAction): GameState {
+    const { offenderId, illegal } = state.pendingAction!;
+    let newState: GameState = { ...state, phase: 'playing', pendingAction: null };
+
+    this.eventBus.emit('draw4_challenged', {
+      challengerId: action.playerId,
+      offenderId,
+      successful: !!illegal,
+    });
+
+    if (illegal) {
+      newState = this.forceDrawCards(newState, offenderId!, 4);
+      return { ...newState, ...this.startTurnClock() };
+    }
+
+    newState = this.forceDrawCards(newState, action.playerId, 6);
+    return this.advanceTurn(newState);
+  }
+
+  private handlePassTurn(state: GameState): GameState {
+    if (state.stackedSkipCount > 0) return this.takeStackedSkips(state);
+    return this.advanceTurn(state);
+  }
+
+  // The player on turn and the next stackedSkipCount - 1 players all lose their turn
+  private takeStackedSkips(state: GameState): GameState {
+    let newState: GameState = { ...state, stackedSkipCount: 0 };
+    for (let i = 0; i < state.stackedSkipCount; i++) {
+      newState = this.advanceTurn(newState);
+    }
+    return newState;
+  }
+
+  private handleJumpIn(state: GameState, action: GameAction): GameState {
+    // Jump-in is handled like a normal play, but the turn shifts to the jumper
+    const { playerId } = action;
+    const playerIndex = state.players.findIndex((p) => p.id === playerId);
+
+    // Set current player to the one who jumped in
+    let newState: GameState = {
+      ...state,
+      currentPlayerIndex: playerIndex,
+    };
+
+    // Then play the card normally
+    return this.handlePlayCard(newState, action);
+  }
+
+  // Players still playing the round
+  private getPlayersInRound(state: GameState = this.state): Player[] {
+    return state.players.filter((p) => !isPlayerOut(state, p.id));
+  }
+
+  // The next seat in the direction of play, passing over players out of the round
+  private getNextSeat(state: GameState): number {
+    const numPlayers = state.players.length;
+    let nextIndex = state.currentPlayerIndex;
+
+    for (let i = 0; i < numPlayers; i++) {
+      nextIndex = (nextIndex + state.direction + numPlayers) % numPlayers;
+      if (!isPlayerOut(state, state.players[nextIndex].id)) break;
+    }
+    return nextIndex;
+  }
+
+  // The seat play reaches `index` from, passing over players out of the round
+  private getPreviousSeat(state: GameState, index: number): number {
+    return this.getNextSeat({ ...state, currentPlayerIndex: index, direction: state.direction === 1 ? -1 : 1 });
+  }
+
+  private advanceTurn(state: GameState): GameState {
+    const nextIndex = this.getNextSeat(state);
+
+    this.eventBus.emit('turn_changed', {
+      previousPlayer: state.players[state.currentPlayerIndex],
+      currentPlayer: state.players[nextIndex],
+    });
+
+    return {
+      ...state,
+      currentPlayerIndex: nextIndex,
+      drawnCardId: null,
+      ...this.startTurnClock(),
+    };
+  }
+
+  private startTurnClock(): Pick<GameState, 'turnStartTime' | 'turnDeadline'> {
+    const now = Date.now();
+    const limit = this.config.turnTimeLimit;
+    return { turnStartTime: now, turnDeadline: limit ? now + limit * 1000 : null };
+  }
+
+  // Auto-draw (which also ends the turn) for a player whose clock has run out.
+  // Called by the host of the engine once state.turnDeadline passes.
+  expireTurn(): GameState {
+    const { phase, turnDeadline } = this.state;
+    const isTimed = phase === 'playing' || phase === 'draw4_challenge';
+    if (!isTimed || turnDeadline === null || Date.now() < turnDeadline) return this.state;
+
+    const playerId = this.getCurrentPlayer().id;
+    this.eventBus.emit('turn_timed_out', { playerId });
+
+    // Letting the clock run out on a Wild Draw Four means taking it
+    if (phase === 'draw4_challenge') {
+      return this.dispatch({ type: 'accept_draw4', playerId });
+    }
+
+    // Having already drawn, the turn just passes
+    return this.dispatch({ type: this.state.drawnCardId ? 'pass_turn' : 'draw_card', playerId });
+  }
+
+  // Pass the current player's turn without them drawing - a pending skip stack
+  // is theirs to take (called by the host of the engine for an absent player)
+  skipTurn(): GameState {
+    if (this.state.phase !== 'playing') return this.state;
+
+    this.log.push({ kind: 'turn_skipped' });
+    this.state = this.handlePassTurn(this.state);
+
+    this.eventBus.emit('state_changed', this.state);
+
+    return this.state;
+  }
+
+  // Slap race resolution (called when everyone has slapped, or by the host
+  // of the engine once pendingAction.deadline passes)
+  resolveSlapRace(slapResults: SlapRecord[] = this.state.pendingAction?.slaps ?? []): GameState {
+    if (this.state.phase !== 'slap_race') return this.state;
+
+    this.log.push({ kind: 'slap_resolved', slaps: slapResults });
+
+    // Sort by timestamp (earlier = faster)
+    const sorted = [...slapResults].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Players who didn't slap
+    const slappedPlayerIds = new Set(sorted.map((s) => s.playerId));
+    const nonSlappers = this.getPlayersInRound().filter((p) => !slappedPlayerIds.has(p.id));
+
+    // Loser is either the last slapper or a non-slapper
+    let loserId: string;
+    if (nonSlappers.length > 0) {
+      loserId = nonSlappers[0].id;
+    } else {
+      loserId = sorted[sorted.length - 1].playerId;
+    }
+
+    let newState = this.forceDrawCards(this.state, loserId, 1);
+
+    this.eventBus.emit('slap_race_ended', {
+      loserId,
+      slaps: sorted,
+      startedAt: (this.state.pendingAction?.deadline ?? Date.now()) - SLAP_WINDOW_MS,
+    });
+
+    newState = {
+      ...newState,
+      phase: 'playing',
+      pendingAction: null,
+    };
+
+    newState = this.advanceTurn(newState);
+    this.state = newState;
+
+    this.eventBus.emit('state_changed', this.state);
+
+    return this.state;
+  }
+
+  // Settle the rule vote or tribunal with the votes cast so far (called by the
+  // host of the engine once pendingAction.deadline passes)
+  closeVote(): GameState {
+    const { phase } = this.state;
+    if (phase !== 'rule_vote' && phase !== 'tribunal') return this.state;
+
+    this.log.push({ kind: 'vote_closed' });
+    this.state =
+      phase === 'rule_vote'
+        ? resolveRuleVote(this.state, this.effects, true)
+        : resolveTribunal(this.state, this.effects, true);
+
+    this.eventBus.emit('state_changed', this.state);
+
+    return this.state;
+  }
+
+  // Mark a player as (dis)connected - used by the online server
+  setPlayerConnected(playerId: string, isConnected: boolean): void {
+    const playerIndex = this.state.players.findIndex((p) => p.id === playerId);
+    if (playerIndex === -1) return;
+
+    const newPlayers = [...this.state.players];
+    newPlayers[playerIndex] = { ...newPlayers[playerIndex], isConnected };
+    this.state = { ...this.state, players: newPlayers };
+
+    this.eventBus.emit('state_changed', this.state);
+  }
+
+  // Hand a seat to (or take it back from) a stand-in AI
+  setPlayerBotControlled(playerId: string, isBotControlled: boolean): void {
+    const playerIndex = this.state.players.findIndex((p) => p.id === playerId);
+    if (playerIndex === -1) return;
+
+    const newPlayers = [...this.state.players];
+    newPlayers[playerIndex] = { ...newPlayers[playerIndex], isBotControlled };
+    this.state = { ...this.state, players: newPlayers };
+
+    this.eventBus.emit('state_changed', this.state);
+  }
+
+  // Reset game (with a fresh seed unless one is given)
+  reset(seed: number = generateSeed()): void {
+    this.seed = seed;
+    this.random = createSeededRandom(seed);
+    this.log = [];
+    this.state = this.createInitialState(this.config);
+    this.eventBus.emit('state_changed', this.state);
+  }
+}
@@ -0,0 +1,80 @@
+import type { GameLog, GameLogEntry, GameState } from '../types/game.types';
+import { GameEngine } from './GameEngine';
+
+// Steps through a finished (or in-progress) game log.
+// Position 0 is the deal; position N is the state after the Nth log entry.
+export class GameReplay {
+  private log: GameLog;
+  private snapshots: GameState[];
+  private position = 0;
+
+  constructor(log: GameLog) {
+    this.log = log;
+
+    // States are immutable, so keeping a reference per entry is enough
+    const engine = GameEngine.fromLog(log, 0);
+    this.snapshots = [engine.getState()];
+    for (const entry of log.entries) {
+      this.snapshots.push(engine.applyLogEntry(entry));
+    }
+  }
+
+  get length(): number {
+    return this.log.entries.length;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getState(): Readonly<GameState> {
+    return this.snapshots[this.position];
+  }
+
+  // The entry that produced the current state (null at the deal)
+  getCurrentEntry(): GameLogEntry | null {
+    return this.position > 0 ? this.log.entries[this.position - 1] : null;
+  }
+
+  seek(position: number): GameState {
+    this.position = Math.max(0, Math.min(position, this.length));
+    return this.getState();
+  }
+
+  stepForward(): GameState {
+    return this.seek(this.position + 1);
+  }
+
+  stepBackward(): GameState {
+    return this.seek(this.position - 1);
+  }
+
+  // Jump to the next position where a different player is up
+  nextTurn(): GameState {
+    const start = this.getState().currentPlayerIndex;
+    let position = this.position;
+    while (position < this.length && this.snapshots[position].currentPlayerIndex === start) {
+      position++;
+    }
+    return this.seek(position);
+  }
+
+  // Jump back to the first position of the previous player's turn
+  previousTurn(): GameState {
+    let position = this.position;
+    const current = this.snapshots[position].currentPlayerIndex;
+
+    // Back up to the start of the current turn, then into the previous one
+    while (position > 0 && this.snapshots[position - 1].currentPlayerIndex === current) {
+      position--;
+    }
+    if (position > 0) {
+      position--;
+      const previous = this.snapshots[position].currentPlayerIndex;
+      while (position > 0 && this.snapshots[position - 1].currentPlayerIndex === previous) {
+        position--;
+      }
+    }
+    return this.seek(position);
+  }
+}
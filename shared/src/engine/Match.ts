@@ -0,0 +1,195 @@
+import type { GameConfig, GameState, MatchState, RoundResult } from '../types/game.types';
+import { GameEngine } from './GameEngine';
+import { getHandPoints } from './CardDeck';
+import { createSeededRandom, deriveSeed, generateSeed, randomId } from './Random';
+
+// A match of one or more rounds. Each round is a fresh GameEngine, dealt by
+// the next seat on. How rounds are scored and the match decided depends on
+// the mode:
+//  - standard: the winner scores the cards left in everyone else's hand, and
+//    the first to the target score wins. Without a target it is one round.
+//  - elimination: everyone scores the cards they were left holding, and the
+//    highest total is knocked out each round until one player remains.
+//  - reverse: a round plays on until one player is left holding cards, who
+//    scores them. Once someone reaches the target the lowest total wins;
+//    without a target it is one round, won by the first out.
+export class Match {
+  private config: GameConfig;
+  private state: MatchState;
+
+  // Pass a saved state (with the config it was started from) to continue a match
+  constructor(config: GameConfig, saved?: MatchState) {
+    const seed = config.seed ?? generateSeed();
+
+    // Seats keep their ids from round to round so scores can follow them
+    const random = createSeededRandom(deriveSeed(seed, 'players'));
+    const playerIds = config.playerIds ?? config.playerNames.map(() => randomId(random));
+    this.config = { ...config, seed, playerIds, matchMode: config.matchMode ?? 'standard' };
+
+    const mode = config.matchMode ?? 'standard';
+    this.state = saved ?? {
+      mode,
+      targetScore: mode === 'elimination' ? null : config.targetScore || null,
+      playerIds,
+      eliminatedIds: [],
+      round: 1,
+      dealerIndex: playerIds.length - 1, // So seat 0 starts, as in a single game
+      scores: Object.fromEntries(playerIds.map((id) => [id, 0])),
+      rounds: [],
+      winnerId: null,
+      customRules: [],
+    };
+  }
+
+  getState(): Readonly<MatchState> {
+    return this.state;
+  }
+
+  // Config the match was started with, seed included
+  getConfig(): GameConfig {
+    return this.config;
+  }
+
+  isOver(): boolean {
+    return this.state.winnerId !== null;
+  }
+
+  // Whether the round in play has finished and been scored
+  isRoundOver(): boolean {
+    return this.state.rounds.length === this.state.round;
+  }
+
+  // Engine config for the round in play. Round 1 uses the match seed itself,
+  // so a single game is reproduced by the seed it shows.
+  getRoundConfig(): GameConfig {
+    const { round, dealerIndex, eliminatedIds, customRules } = this.state;
+    const seed = round === 1 ? this.config.seed : deriveSeed(this.config.seed!, `round:${round}`);
+    return { ...this.config, seed, dealerIndex, eliminatedIds, customRules };
+  }
+
+  createRoundEngine(): GameEngine {
+    return new GameEngine(this.getRoundConfig());
+  }
+
+  // Score a finished round. Returns null when the round isn't over yet or
+  // has already been scored, so it is safe to call on every state change.
+  recordRound(final: GameState): RoundResult | null {
+    if (final.phase !== 'game_over' || !final.winner || this.isRoundOver()) return null;
+
+    const { mode, targetScore, eliminatedIds } = this.state;
+    const winnerId = final.winner;
+    const handPoints = Object.fromEntries(final.players.map((p) => [p.id, getHandPoints(p.hand)]));
+    const scores = { ...this.state.scores };
+    let points = 0;
+
+    if (mode === 'standard') {
+      points = final.players
+        .filter((p) => p.id !== winnerId)
+        .reduce((total, p) => total + handPoints[p.id], 0);
+      scores[winnerId] = (scores[winnerId] ?? 0) + points;
+    } else {
+      // What you're left holding counts against you
+      for (const id of this.state.playerIds) {
+        scores[id] = (scores[id] ?? 0) + (handPoints[id] ?? 0);
+      }
+    }
+
+    let matchWinnerId: string | null = null;
+    let eliminatedId: string | null = null;
+
+    if (mode === 'standard') {
+      matchWinnerId = targetScore === null || scores[winnerId] >= targetScore ? winnerId : null;
+    } else if (mode === 'reverse') {
+      if (targetScore === null) {
+        matchWinnerId = winnerId;
+      } else if (this.state.playerIds.some((id) => scores[id] >= targetScore)) {
+        matchWinnerId = this.getLowestScorer(scores, final);
+      }
+    } else {
+      eliminatedId = this.getElimination(scores, handPoints);
+      const remaining = this.state.playerIds.filter(
+        (id) => id !== eliminatedId && !eliminatedIds.includes(id)
+      );
+      if (remaining.length === 1) matchWinnerId = remaining[0];
+    }
+
+    const result: RoundResult = {
+      round: this.state.round,
+      winnerId,
+      loserId: final.loser,
+      eliminatedId,
+      points,
+      handPoints,
+    };
+
+    // Every rule has now seen this round out; those with rounds left carry on
+    const customRules = final.customRules
+      .map((rule) => ({ ...rule, roundsLeft: rule.roundsLeft - 1 }))
+      .filter((rule) => rule.roundsLeft > 0);
+
+    this.state = {
+      ...this.state,
+      scores,
+      eliminatedIds: eliminatedId ? [...eliminatedIds, eliminatedId] : eliminatedIds,
+      rounds: [...this.state.rounds, result],
+      winnerId: matchWinnerId,
+      customRules,
+    };
+    return result;
+  }
+
+  // Reverse mode: the lowest total wins, ties going to whoever went out first
+  // in the final round
+  private getLowestScorer(scores: Record<string, number>, final: GameState): string {
+    const finished = (id: string) => {
+      const place = final.finishOrder.indexOf(id);
+      return place === -1 ? Infinity : place;
+    };
+    return [...this.state.playerIds].sort((a, b) => scores[a] - scores[b] || finished(a) - finished(b))[0];
+  }
+
+  // Elimination mode: the highest total among those still in goes out. Ties go
+  // against whoever held more this round, then the later seat.
+  private getElimination(scores: Record<string, number>, handPoints: Record<string, number>): string {
+    const remaining = this.state.playerIds.filter((id) => !this.state.eliminatedIds.includes(id));
+    return remaining.reduce((out, id) =>
+      scores[id] > scores[out] || (scores[id] === scores[out] && handPoints[id] >= handPoints[out]) ? id : out
+    );
+  }
+
+  // Deal the next round once the current one has been scored
+  startNextRound(): GameEngine {
+    if (this.isOver() || !this.isRoundOver()) {
+      throw new Error('The current round is still being played');
+    }
+
+    // The deal passes over seats that have been knocked out
+    const { playerIds, eliminatedIds } = this.state;
+    let dealerIndex = this.state.dealerIndex;
+    do {
+      dealerIndex = (dealerIndex + 1) % playerIds.length;
+    } while (eliminatedIds.includes(playerIds[dealerIndex]));
+
+    this.state = { ...this.state, round: this.state.round + 1, dealerIndex };
+    return this.createRoundEngine();
+  }
+}
+
+// Whether rounds are scored towards a match result, rather than a single game
+export function isMultiRound(match: MatchState): boolean {
+  return match.mode === 'elimination' || match.targetScore !== null;
+}
+
+// How the match is won, for headers - null for a plain single game
+export function describeMatch(match: MatchState): string | null {
+  switch (match.mode) {
+    case 'elimination':
+      return `Elimination · ${match.playerIds.length - match.eliminatedIds.length} left`;
+    case 'reverse':
+      return match.targetScore === null
+        ? 'Last one holding loses'
+        : `Last one holding · Lowest score at ${match.targetScore}`;
+    default:
+      return match.targetScore === null ? null : `First to ${match.targetScore}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// A source of uniformly distributed numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Seeded source whose position can be saved: createSeededRandom(r.getState())
+// continues exactly where r left off
+export type SeededRandom = RandomSource & { getState: () => number };
+
+// Mulberry32 - small, fast and good enough for shuffling cards
+export function createSeededRandom(seed: number): SeededRandom {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(next, { getState: () => a });
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// FNV-1a hash, used to turn text into a seed
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Independent stream for a sub-system (e.g. one AI player) of a seeded game
+export function deriveSeed(seed: number, label: string): number {
+  return hashSeed(`${seed}:${label}`);
+}
+
+// UUID whose bytes come from the given source, so seeded games get stable ids
+export function randomId(random: RandomSource): string {
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Math.floor(random() * 256);
+  }
+  return uuidv4({ random: bytes });
+}
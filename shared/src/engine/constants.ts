@@ -0,0 +1,15 @@
+import type { GameState } from '../types/game.types';
+
+// Shared by the engine and its effect modules, so neither has to import the other for them
+
+export const SLAP_WINDOW_MS = 3000;
+export const RULE_VOTE_WINDOW_MS = 20000;
+export const TRIBUNAL_WINDOW_MS = 20000;
+
+// Sitting the round out: knocked out of the match, or (reverse mode) already out of cards
+export function isPlayerOut(state: GameState, playerId: string): boolean {
+  return (
+    state.finishOrder.includes(playerId) ||
+    state.players.some((p) => p.id === playerId && p.isEliminated)
+  );
+}
@@ -0,0 +1,89 @@
+import type {
+  AIDifficulty,
+  Card,
+  CardEffect,
+  CardEffectMap,
+  GameAction,
+  GameActionType,
+  GameConfig,
+  GameEventType,
+  GameLogEntry,
+  GamePhase,
+  GameState,
+  PendingActionType,
+  Player,
+  RejectionCode,
+  ValidationResult,
+} from '../../types/game.types';
+import type { RandomSource } from '../Random';
+import { isPlayerOut } from '../constants';
+import type { AIDecision } from '../../ai/AIPlayer';
+
+// The spicy numbers, as they've always been
+export const DEFAULT_CARD_EFFECTS: CardEffectMap = { 0: 'custom_rule', 5: 'slap', 7: 'silence' };
+// Classic Seven-O: 7 swaps hands, 0 passes every hand on
+export const SEVEN_O_CARD_EFFECTS: CardEffectMap = { 0: 'rotate_hands', 5: 'slap', 7: 'swap_hands' };
+
+// The parts of the engine an effect gets to use
+export interface EffectContext {
+  config: GameConfig;
+  emit(event: GameEventType, payload: unknown): void;
+  createId(): string;
+  advanceTurn(state: GameState): GameState;
+  forceDrawCards(state: GameState, playerId: string, count: number): GameState;
+  takeStackedSkips(state: GameState): GameState;
+  getPlayersInRound(state: GameState): Player[];
+  startTurnClock(): Pick<GameState, 'turnStartTime' | 'turnDeadline'>;
+  record(entry: GameLogEntry): void;  // Informational entries only - replays must not depend on them
+}
+
+// What an AI brings to a decision an effect's phase asks of it
+export interface AIContext {
+  id: string;
+  difficulty: AIDifficulty;
+  random: RandomSource;
+  config: GameConfig | null;  // Null when the AI wasn't told which rules are in play
+  thinkingDelay(): number;
+}
+
+// An action only an effect's phase makes sense of (a slap, picking a hand to swap...)
+export interface EffectAction {
+  validate?(state: GameState, action: GameAction, ctx: EffectContext): ValidationResult;
+  apply(state: GameState, action: GameAction, ctx: EffectContext): GameState;
+}
+
+// A phase an effect can leave the game in until it's resolved
+export interface EffectPhase {
+  phase: GamePhase;
+  pendingAction: PendingActionType;
+  // Playing, drawing and passing wait until the phase is over
+  holdsTurn?: { code: RejectionCode; reason: string };
+  // How an AI resolves it, or null if it's not theirs to resolve
+  decide?(state: GameState, ai: AIContext): AIDecision | null;
+}
+
+// A self-contained rule: which cards set it off and everything it brings with it.
+// The engine finds the first registered module a played card triggers and hands
+// the turn over to it (see CardEffectRegistry).
+export interface CardEffectModule {
+  id: string;
+  triggers(card: Card, config: GameConfig): boolean;
+  // Called with the card already on the discard pile and the player who played it on turn
+  apply(state: GameState, card: Card, playerIndex: number, ctx: EffectContext): GameState;
+  phases?: EffectPhase[];
+  actions?: Partial<Record<GameActionType, EffectAction>>;
+  // Added to a hard AI's score for playing the card
+  aiHint?(card: Card, state: GameState, playerId: string): number;
+}
+
+// Whether a number card is mapped to `effect` at this table
+export function isMappedTo(card: Card, config: GameConfig, effect: CardEffect): boolean {
+  if (typeof card.value !== 'number') return false;
+  return (config.cardEffects ?? DEFAULT_CARD_EFFECTS)[card.value] === effect;
+}
+
+// Smallest hand among the player's opponents still in the round
+export function getFewestOpponentCards(state: GameState, playerId: string): number {
+  const opponents = state.players.filter((p) => p.id !== playerId && !isPlayerOut(state, p.id));
+  return Math.min(...opponents.map((p) => p.hand.length));
+}
@@ -0,0 +1,42 @@
+import type { Card, GameActionType, GameConfig, GamePhase } from '../../types/game.types';
+import type { CardEffectModule, EffectAction, EffectPhase } from './CardEffectModule';
+import { drawStacking } from './DrawStacking';
+import { skip } from './Skip';
+import { reverse } from './Reverse';
+import { silence } from './Silence';
+import { customRule } from './CustomRule';
+import { slap } from './Slap';
+import { swapHands, rotateHands } from './SevenO';
+import { tribunal } from './Tribunal';
+
+// Checked in order - a card does whatever the first module it triggers does
+const modules: CardEffectModule[] = [drawStacking, skip, reverse, silence, customRule, slap, swapHands, rotateHands, tribunal];
+
+// Add a rule to every engine created from now on. Built-in modules are checked first.
+export function registerCardEffect(module: CardEffectModule): void {
+  if (modules.some((m) => m.id === module.id)) {
+    throw new Error(`Card effect "${module.id}" is already registered`);
+  }
+  modules.push(module);
+}
+
+export function getCardEffectModules(): readonly CardEffectModule[] {
+  return modules;
+}
+
+// The module a played card sets off at this table, if any
+export function findCardEffect(card: Card, config: GameConfig): CardEffectModule | undefined {
+  return modules.find((m) => m.triggers(card, config));
+}
+
+export function findEffectPhase(phase: GamePhase): EffectPhase | undefined {
+  for (const module of modules) {
+    const found = module.phases?.find((p) => p.phase === phase);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function findEffectAction(type: GameActionType): EffectAction | undefined {
+  return modules.find((m) => m.actions?.[type])?.actions?.[type];
+}
@@ -0,0 +1,225 @@
+import type { CustomRule, GameAction, GameState, RuleProposal, ValidationResult } from '../../types/game.types';
+import { RULE_VOTE_WINDOW_MS } from '../constants';
+import type { CardEffectModule, EffectContext } from './CardEffectModule';
+import { isMappedTo } from './CardEffectModule';
+import { MAX_RULE_DRAW, compileCustomRule, describeRuleEffect, validateRuleEffect } from './EnforcedRules';
+
+const AI_RULES = [
+  { text: 'Must say thank you when drawing', type: 'speech' as const },
+  { text: 'No pointing at people', type: 'behavioral' as const },
+  { text: 'Knock before playing a card', type: 'action' as const },
+  { text: 'Draw 1 if you touch your face', type: 'penalty' as const },
+  { text: 'Must speak in an accent', type: 'behavioral' as const },
+];
+
+// Only the player whose card it was gets to change the rules
+function checkMakingRule(state: GameState, action: GameAction): ValidationResult {
+  if (state.phase !== 'custom_rule_creation' || state.pendingAction?.targetPlayer !== action.playerId) {
+    return { valid: false, code: 'not_making_rule', reason: 'Not making a rule' };
+  }
+  return { valid: true };
+}
+
+// Add or scrap the rule and hand the turn on
+function enact(state: GameState, { kind, rule }: RuleProposal, ctx: EffectContext): GameState {
+  let customRules: CustomRule[];
+  if (kind === 'add') {
+    compileCustomRule(rule);
+    ctx.emit('custom_rule_created', { rule });
+    customRules = [...state.customRules, rule];
+  } else {
+    ctx.emit('custom_rule_repealed', { rule });
+    customRules = state.customRules.filter((r) => r.id !== rule.id);
+  }
+
+  return ctx.advanceTurn({ ...state, phase: 'playing', pendingAction: null, customRules });
+}
+
+// Put the change straight through, or to the table's vote with the ruleVote rule
+function propose(state: GameState, proposal: RuleProposal, ctx: EffectContext): GameState {
+  if (!ctx.config.enabledRules.ruleVote) return enact(state, proposal, ctx);
+
+  const deadline = Date.now() + RULE_VOTE_WINDOW_MS;
+  ctx.emit('rule_vote_started', { proposal, deadline });
+
+  return {
+    ...state,
+    phase: 'rule_vote',
+    pendingAction: {
+      type: 'rule_vote',
+      proposal,
+      votes: {},
+      deadline,
+    },
+  };
+}
+
+// A proposal carries once most of the other players still in the round back
+// it, and falls once they can't. Closing the vote (time's up) counts anyone
+// who hasn't voted as against.
+export function resolveRuleVote(state: GameState, ctx: EffectContext, closing = false): GameState {
+  const proposal = state.pendingAction?.proposal;
+  if (state.phase !== 'rule_vote' || !proposal) return state;
+
+  const votes = state.pendingAction?.votes ?? {};
+  const voters = ctx.getPlayersInRound(state).filter((p) => p.id !== proposal.proposedBy);
+  const votesFor = voters.filter((p) => votes[p.id] === true).length;
+  const undecided = voters.filter((p) => votes[p.id] === undefined).length;
+
+  const passed = votesFor * 2 > voters.length;
+  if (!passed && !closing && (votesFor + undecided) * 2 > voters.length) return state;
+
+  ctx.emit('rule_vote_ended', { proposal, votes, passed });
+
+  if (passed) return enact(state, proposal, ctx);
+  return ctx.advanceTurn({ ...state, phase: 'playing', pendingAction: null });
+}
+
+// The player who set it off makes up a new rule for the table (or, with the
+// ruleRepeal rule, scraps one)
+export const customRule: CardEffectModule = {
+  id: 'custom_rule',
+  triggers: (card, config) => config.enabledRules.customRule && isMappedTo(card, config, 'custom_rule'),
+
+  apply(state, _card, playerIndex) {
+    return {
+      ...state,
+      phase: 'custom_rule_creation',
+      pendingAction: {
+        type: 'create_rule',
+        targetPlayer: state.players[playerIndex].id,
+      },
+    };
+  },
+
+  phases: [
+    {
+      phase: 'custom_rule_creation',
+      pendingAction: 'create_rule',
+      decide(state, ai) {
+        // Scrap a rule that makes us draw for someone else's cards
+        const unwelcome = state.customRules.find(
+          (r) => r.effect?.kind === 'others_draw' && r.createdBy !== ai.id
+        );
+        if (unwelcome && ai.config?.enabledRules.ruleRepeal && ai.difficulty !== 'easy') {
+          return {
+            action: { type: 'repeal_custom_rule', playerId: ai.id, ruleId: unwelcome.id },
+            delay: 1500,
+          };
+        }
+
+        const rule = AI_RULES[Math.floor(ai.random() * AI_RULES.length)];
+
+        return {
+          action: {
+            type: 'create_custom_rule',
+            playerId: ai.id,
+            customRule: {
+              text: rule.text,
+              type: rule.type,
+              createdBy: ai.id,
+            },
+          },
+          delay: 1500,
+        };
+      },
+    },
+    {
+      phase: 'rule_vote',
+      pendingAction: 'rule_vote',
+      holdsTurn: { code: 'vote_pending', reason: 'Waiting on the rule vote' },
+      decide(state, ai) {
+        const proposal = state.pendingAction?.proposal;
+        if (!proposal || proposal.proposedBy === ai.id || state.pendingAction?.votes?.[ai.id] !== undefined) {
+          return null;
+        }
+
+        // Happy to go along with most things, short of drawing for someone else's cards
+        const makesUsDraw = proposal.rule.effect?.kind === 'others_draw' && proposal.rule.createdBy !== ai.id;
+        const inFavor = proposal.kind === 'add' ? !makesUsDraw && ai.random() < 0.7 : makesUsDraw || ai.random() < 0.5;
+
+        return {
+          action: { type: 'vote_rule', playerId: ai.id, vote: inFavor },
+          delay: ai.thinkingDelay(),
+        };
+      },
+    },
+  ],
+
+  actions: {
+    create_custom_rule: {
+      validate(state, action) {
+        const making = checkMakingRule(state, action);
+        if (!making.valid) return making;
+
+        const penalty = action.customRule?.penalty;
+        if (penalty !== undefined && !(Number.isInteger(penalty) && penalty >= 1 && penalty <= MAX_RULE_DRAW)) {
+          return { valid: false, code: 'invalid_rule', reason: `Breaking a rule can cost 1 to ${MAX_RULE_DRAW} cards` };
+        }
+
+        const effect = action.customRule?.effect;
+        return effect ? validateRuleEffect(effect) : { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        if (!action.customRule) return state;
+        const { text, type, effect, penalty } = action.customRule;
+
+        // An enforced rule reads as what it does, so nobody can dress it up as something else
+        const newRule: CustomRule = {
+          id: ctx.createId(),
+          text: effect ? describeRuleEffect(effect) : text,
+          type,
+          createdBy: action.playerId,
+          createdAt: Date.now(),
+          effect,
+          roundsLeft: ctx.config.ruleLifetime ?? 1,
+          // The game enforces its own rules, so nobody gets reported for breaking them
+          penalty: effect ? undefined : penalty,
+        };
+
+        return propose(state, { kind: 'add', rule: newRule, proposedBy: action.playerId }, ctx);
+      },
+    },
+
+    repeal_custom_rule: {
+      validate(state, action, ctx) {
+        if (!ctx.config.enabledRules.ruleRepeal) {
+          return { valid: false, code: 'repeal_disabled', reason: 'Rules cannot be repealed at this table' };
+        }
+        const making = checkMakingRule(state, action);
+        if (!making.valid) return making;
+
+        if (!state.customRules.some((r) => r.id === action.ruleId)) {
+          return { valid: false, code: 'rule_not_found', reason: 'No such rule' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        const rule = state.customRules.find((r) => r.id === action.ruleId);
+        if (!rule) return state;
+
+        return propose(state, { kind: 'repeal', rule, proposedBy: action.playerId }, ctx);
+      },
+    },
+
+    vote_rule: {
+      validate(state, action) {
+        const proposal = state.pendingAction?.proposal;
+        if (state.phase !== 'rule_vote' || !proposal || proposal.proposedBy === action.playerId) {
+          return { valid: false, code: 'not_voting', reason: 'No rule vote for you' };
+        }
+        if (state.pendingAction?.votes?.[action.playerId] !== undefined) {
+          return { valid: false, code: 'not_voting', reason: 'Already voted' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        const votes = { ...state.pendingAction?.votes, [action.playerId]: action.vote === true };
+        return resolveRuleVote({ ...state, pendingAction: { ...state.pendingAction!, votes } }, ctx);
+      },
+    },
+  },
+};
@@ -0,0 +1,30 @@
+import { isDrawCard, getDrawAmount, canStackDraw } from '../CardDeck';
+import type { CardEffectModule } from './CardEffectModule';
+import { getFewestOpponentCards } from './CardEffectModule';
+
+// +2 and +4: the next player draws, or (stackDraw) passes the pile on with a draw card of their own
+export const drawStacking: CardEffectModule = {
+  id: 'draw',
+  triggers: (card) => isDrawCard(card),
+
+  apply(state, card, _playerIndex, ctx) {
+    const drawAmount = getDrawAmount(card);
+    let newState = ctx.advanceTurn({ ...state, stackedDrawAmount: state.stackedDrawAmount + drawAmount });
+    const nextPlayer = newState.players[newState.currentPlayerIndex];
+
+    // Stacked up, it waits for them unless they have nothing to stack on it
+    if (ctx.config.enabledRules.stackDraw) {
+      const canStack = nextPlayer.hand.some((c) => canStackDraw(c, card, ctx.config.stackDrawMode));
+      if (canStack) return newState;
+    }
+
+    newState = ctx.forceDrawCards(newState, nextPlayer.id, newState.stackedDrawAmount);
+    return ctx.advanceTurn({ ...newState, stackedDrawAmount: 0 });
+  },
+
+  // Worth more the closer an opponent is to going out
+  aiHint(card, state, playerId) {
+    if (getFewestOpponentCards(state, playerId) > 3) return 0;
+    return card.value === 'wild_draw4' ? 50 : 40;
+  },
+};
@@ -0,0 +1,128 @@
+import type {
+  Card,
+  CardColor,
+  CardMatcher,
+  CustomRule,
+  GameState,
+  RuleEffect,
+  ValidationResult,
+} from '../../types/game.types';
+import { getCardDisplayName, isPlayable } from '../CardDeck';
+import type { EffectContext } from './CardEffectModule';
+
+export const MAX_RULE_DRAW = 4;
+
+// What a custom rule's effect turns into in the engine
+interface CompiledRule {
+  matches(card: Card): boolean;
+  // Runs when a matching card is played, before the card's own effect
+  onPlay?(state: GameState, playerIndex: number, ctx: EffectContext): GameState;
+  playsOnAnything?: boolean;
+}
+
+// Compiled once per effect; a restored game compiles its rules again on first use
+const compiled = new WeakMap<RuleEffect, CompiledRule>();
+
+function matchesCards(card: Card, { color, value }: CardMatcher): boolean {
+  return (color === undefined || card.color === color) && (value === undefined || card.value === value);
+}
+
+function compile(effect: RuleEffect): CompiledRule {
+  const matches = (card: Card) => matchesCards(card, effect.cards);
+
+  switch (effect.kind) {
+    case 'others_draw':
+      return {
+        matches,
+        onPlay(state, playerIndex, ctx) {
+          const playerId = state.players[playerIndex].id;
+          return ctx
+            .getPlayersInRound(state)
+            .filter((p) => p.id !== playerId)
+            .reduce((s, p) => ctx.forceDrawCards(s, p.id, effect.count), state);
+        },
+      };
+
+    case 'also_reverse':
+      return { matches, onPlay: (state) => ({ ...state, direction: (state.direction * -1) as 1 | -1 }) };
+
+    // Passing the turn on once here means the card's own effect carries on from the next player
+    case 'also_skip':
+      return { matches, onPlay: (state, _playerIndex, ctx) => ctx.advanceTurn(state) };
+
+    case 'play_on_anything':
+      return { matches, playsOnAnything: true };
+  }
+}
+
+// The engine hooks for a custom rule, or null for an honor-system rule
+export function compileCustomRule(rule: CustomRule): CompiledRule | null {
+  if (!rule.effect) return null;
+
+  let hooks = compiled.get(rule.effect);
+  if (!hooks) {
+    hooks = compile(rule.effect);
+    compiled.set(rule.effect, hooks);
+  }
+  return hooks;
+}
+
+export function validateRuleEffect(effect: RuleEffect): ValidationResult {
+  const { color, value } = effect.cards;
+  const invalid = (reason: string): ValidationResult => ({ valid: false, code: 'invalid_rule', reason });
+
+  if (color === undefined && value === undefined) {
+    return invalid('Pick a color or a card for the rule');
+  }
+  if (color !== undefined && (value === 'wild' || value === 'wild_draw4')) {
+    return invalid('Wild cards have no color');
+  }
+  if (effect.kind === 'others_draw' && !(Number.isInteger(effect.count) && effect.count >= 1 && effect.count <= MAX_RULE_DRAW)) {
+    return invalid(`Players can draw 1 to ${MAX_RULE_DRAW} cards`);
+  }
+  return { valid: true };
+}
+
+// "Red 3s", "Skips", "Green cards"
+function describeCards({ color, value }: CardMatcher): string {
+  if (value === undefined) {
+    return `${color!.charAt(0).toUpperCase()}${color!.slice(1)} cards`;
+  }
+  return `${getCardDisplayName({ id: '', color: color ?? 'wild', value })}s`;
+}
+
+// The rule as it reads on the table, e.g. "Red 3s make everyone else draw 1"
+export function describeRuleEffect(effect: RuleEffect): string {
+  const cards = describeCards(effect.cards);
+
+  switch (effect.kind) {
+    case 'others_draw':
+      return `${cards} make everyone else draw ${effect.count}`;
+    case 'also_reverse':
+      return `${cards} also reverse play`;
+    case 'also_skip':
+      return `${cards} also skip the next player`;
+    case 'play_on_anything':
+      return `${cards} can go on any card`;
+  }
+}
+
+// isPlayable, plus any card a custom rule lets go on anything
+export function isPlayableUnderRules(card: Card, topCard: Card, currentColor: CardColor, rules: CustomRule[]): boolean {
+  if (isPlayable(card, topCard, currentColor)) return true;
+  return rules.some((rule) => {
+    const hooks = compileCustomRule(rule);
+    return !!hooks?.playsOnAnything && hooks.matches(card);
+  });
+}
+
+// Run every custom rule the played card sets off
+export function applyCustomRules(state: GameState, card: Card, playerIndex: number, ctx: EffectContext): GameState {
+  return state.customRules.reduce((current, rule) => {
+    const hooks = compileCustomRule(rule);
+    if (!hooks?.onPlay || !hooks.matches(card)) return current;
+
+    ctx.emit('custom_rule_enforced', { rule, playerId: state.players[playerIndex].id, card });
+    return hooks.onPlay(current, playerIndex, ctx);
+  }, state);
+}
@@ -0,0 +1,17 @@
+import { isReverseCard } from '../CardDeck';
+import type { CardEffectModule } from './CardEffectModule';
+import { getFewestOpponentCards } from './CardEffectModule';
+
+export const reverse: CardEffectModule = {
+  id: 'reverse',
+  triggers: (card) => isReverseCard(card),
+
+  apply(state, _card, _playerIndex, ctx) {
+    const newState = ctx.advanceTurn({ ...state, direction: (state.direction * -1) as 1 | -1 });
+
+    // With two players left, reverse acts as skip
+    return ctx.getPlayersInRound(newState).length === 2 ? ctx.advanceTurn(newState) : newState;
+  },
+
+  aiHint: (_card, state, playerId) => (getFewestOpponentCards(state, playerId) <= 3 ? 30 : 0),
+};
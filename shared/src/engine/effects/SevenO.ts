@@ -0,0 +1,106 @@
+import { isPlayerOut } from '../constants';
+import type { CardEffectModule } from './CardEffectModule';
+import { isMappedTo, getFewestOpponentCards } from './CardEffectModule';
+
+// Seven-O's 7: the player swaps hands with someone of their choice
+export const swapHands: CardEffectModule = {
+  id: 'swap_hands',
+  triggers: (card, config) => isMappedTo(card, config, 'swap_hands'),
+
+  apply(state, _card, playerIndex, ctx) {
+    // Going out on a 7 (reverse mode) leaves no hand to swap
+    const player = state.players[playerIndex];
+    if (isPlayerOut(state, player.id)) return ctx.advanceTurn(state);
+
+    return {
+      ...state,
+      phase: 'hand_swap',
+      pendingAction: {
+        type: 'swap_hands',
+        targetPlayer: player.id,
+      },
+    };
+  },
+
+  phases: [
+    {
+      phase: 'hand_swap',
+      pendingAction: 'swap_hands',
+      holdsTurn: { code: 'swap_pending', reason: 'Waiting on a hand swap' },
+      decide(state, ai) {
+        if (state.pendingAction?.targetPlayer !== ai.id) return null;
+        const others = state.players.filter((p) => p.id !== ai.id && !isPlayerOut(state, p.id));
+
+        // Easy picks anyone; otherwise take the smallest hand going
+        const target =
+          ai.difficulty === 'easy'
+            ? others[Math.floor(ai.random() * others.length)]
+            : others.reduce((best, p) => (p.hand.length < best.hand.length ? p : best));
+
+        return {
+          action: { type: 'swap_hands', playerId: ai.id, targetPlayerId: target.id },
+          delay: ai.thinkingDelay(),
+        };
+      },
+    },
+  ],
+
+  actions: {
+    swap_hands: {
+      validate(state, action) {
+        if (state.phase !== 'hand_swap' || state.pendingAction?.targetPlayer !== action.playerId) {
+          return { valid: false, code: 'not_swapping', reason: 'Not swapping hands' };
+        }
+        const target = state.players.find((p) => p.id === action.targetPlayerId);
+        if (!target || target.id === action.playerId || isPlayerOut(state, target.id)) {
+          return { valid: false, code: 'invalid_swap_target', reason: 'Cannot swap hands with that player' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        const { playerId, targetPlayerId } = action;
+        const playerIndex = state.players.findIndex((p) => p.id === playerId);
+        const targetIndex = state.players.findIndex((p) => p.id === targetPlayerId);
+
+        const newPlayers = [...state.players];
+        newPlayers[playerIndex] = { ...state.players[playerIndex], hand: state.players[targetIndex].hand };
+        newPlayers[targetIndex] = { ...state.players[targetIndex], hand: state.players[playerIndex].hand };
+
+        ctx.emit('hands_swapped', { playerId, targetPlayerId });
+
+        return ctx.advanceTurn({
+          ...state,
+          phase: 'playing',
+          pendingAction: null,
+          players: newPlayers,
+        });
+      },
+    },
+  },
+
+  // Worth it when someone is holding fewer cards than we'd be left with
+  aiHint(_card, state, playerId) {
+    const handSize = (state.players.find((p) => p.id === playerId)?.hand.length ?? 0) - 1;
+    return getFewestOpponentCards(state, playerId) < handSize ? 30 : -20;
+  },
+};
+
+// Seven-O's 0: every hand still in the round moves on one seat in the direction of play
+export const rotateHands: CardEffectModule = {
+  id: 'rotate_hands',
+  triggers: (card, config) => isMappedTo(card, config, 'rotate_hands'),
+
+  apply(state, _card, _playerIndex, ctx) {
+    const seats = state.players.map((_, i) => i).filter((i) => !isPlayerOut(state, state.players[i].id));
+    const newPlayers = [...state.players];
+
+    seats.forEach((seat, k) => {
+      const from = seats[(k - state.direction + seats.length) % seats.length];
+      newPlayers[seat] = { ...state.players[seat], hand: state.players[from].hand };
+    });
+
+    ctx.emit('hands_rotated', { direction: state.direction });
+    return ctx.advanceTurn({ ...state, players: newPlayers });
+  },
+};
@@ -0,0 +1,16 @@
+import type { CardEffectModule } from './CardEffectModule';
+import { isMappedTo } from './CardEffectModule';
+
+// Toggles silence mode; anyone caught speaking while it's on can be reported (see Tribunal)
+export const silence: CardEffectModule = {
+  id: 'silence',
+  triggers: (card, config) => config.enabledRules.silence && isMappedTo(card, config, 'silence'),
+
+  apply(state, _card, _playerIndex, ctx) {
+    ctx.emit('silence_toggled', { active: !state.silenceMode });
+    return ctx.advanceTurn({ ...state, silenceMode: !state.silenceMode });
+  },
+
+  // Could be strategic
+  aiHint: () => 5,
+};
@@ -0,0 +1,23 @@
+import { isSkipCard } from '../CardDeck';
+import type { CardEffectModule } from './CardEffectModule';
+import { getFewestOpponentCards } from './CardEffectModule';
+
+// The next player misses their turn, or (stackSkip) passes it on with a skip of their own
+export const skip: CardEffectModule = {
+  id: 'skip',
+  triggers: (card) => isSkipCard(card),
+
+  apply(state, _card, _playerIndex, ctx) {
+    if (!ctx.config.enabledRules.stackSkip) {
+      return ctx.advanceTurn(ctx.advanceTurn(state));
+    }
+
+    const newState = ctx.advanceTurn({ ...state, stackedSkipCount: state.stackedSkipCount + 1 });
+
+    // Without a skip to pass it on, they take it straight away
+    const nextPlayer = newState.players[newState.currentPlayerIndex];
+    return nextPlayer.hand.some(isSkipCard) ? newState : ctx.takeStackedSkips(newState);
+  },
+
+  aiHint: (_card, state, playerId) => (getFewestOpponentCards(state, playerId) <= 3 ? 30 : 0),
+};
@@ -0,0 +1,80 @@
+import { SLAP_WINDOW_MS } from '../constants';
+import type { CardEffectModule } from './CardEffectModule';
+import { isMappedTo } from './CardEffectModule';
+
+// Everyone races to slap; the slowest (or anyone who doesn't) draws a card.
+// The race is closed by GameEngine.resolveSlapRace.
+export const slap: CardEffectModule = {
+  id: 'slap',
+  triggers: (card, config) => config.enabledRules.slap && isMappedTo(card, config, 'slap'),
+
+  apply(state, _card, _playerIndex, ctx) {
+    const deadline = Date.now() + SLAP_WINDOW_MS;
+    ctx.emit('slap_race_started', { deadline });
+
+    return {
+      ...state,
+      phase: 'slap_race',
+      pendingAction: {
+        type: 'slap',
+        deadline,
+        slaps: [],
+      },
+    };
+  },
+
+  phases: [
+    {
+      phase: 'slap_race',
+      pendingAction: 'slap',
+      decide(_state, ai) {
+        // AI reaction time based on difficulty
+        const baseDelay = {
+          easy: 1500,
+          medium: 800,
+          hard: 200,
+        }[ai.difficulty];
+
+        const variance = ai.random() * 500;
+
+        return {
+          action: {
+            type: 'slap',
+            playerId: ai.id,
+            timestamp: Date.now() + baseDelay + variance,
+          },
+          delay: baseDelay + variance,
+        };
+      },
+    },
+  ],
+
+  actions: {
+    slap: {
+      validate(state) {
+        if (state.phase !== 'slap_race') {
+          return { valid: false, code: 'no_slap_race', reason: 'No slap race active' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action) {
+        const slaps = state.pendingAction?.slaps ?? [];
+
+        // Only the first slap from each player counts
+        if (slaps.some((s) => s.playerId === action.playerId)) return state;
+
+        return {
+          ...state,
+          pendingAction: {
+            ...state.pendingAction!,
+            slaps: [...slaps, { playerId: action.playerId, timestamp: action.timestamp ?? Date.now() }],
+          },
+        };
+      },
+    },
+  },
+
+  // We might lose the race
+  aiHint: () => -10,
+};
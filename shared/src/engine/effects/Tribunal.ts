@@ -0,0 +1,174 @@
+import type { Accusation, GameConfig, GameState, Player } from '../../types/game.types';
+import { TRIBUNAL_WINDOW_MS, isPlayerOut } from '../constants';
+import type { CardEffectModule, EffectContext } from './CardEffectModule';
+
+// Stands in for a rule id when someone is reported for speaking in silence mode
+export const SILENCE_RULE_ID = 'silence';
+export const DEFAULT_RULE_PENALTY = 1;
+
+// The rule a report names, or why it can't be reported
+function findReportableRule(
+  state: GameState,
+  config: GameConfig,
+  ruleId: string | undefined
+): { text: string; penalty: number } | { error: string } {
+  if (ruleId === SILENCE_RULE_ID) {
+    if (!config.enabledRules.silence || !state.silenceMode) return { error: 'Silence mode is off' };
+    return { text: 'No speaking in silence mode', penalty: DEFAULT_RULE_PENALTY };
+  }
+
+  const rule = state.customRules.find((r) => r.id === ruleId);
+  if (!rule) return { error: 'No such rule' };
+  if (rule.effect) return { error: 'The game enforces that rule itself' };
+  return { text: rule.text, penalty: rule.penalty ?? DEFAULT_RULE_PENALTY };
+}
+
+type Parties = Pick<Accusation, 'accuserId' | 'offenderId'>;
+
+function isOnJury({ accuserId, offenderId }: Parties, playerId: string): boolean {
+  return playerId !== accuserId && playerId !== offenderId;
+}
+
+// Everyone else still in the round
+function getJury(state: GameState, ctx: EffectContext, parties: Parties): Player[] {
+  return ctx.getPlayersInRound(state).filter((p) => isOnJury(parties, p.id));
+}
+
+// Guilty once most of the jury says so, and not guilty once they can't - a tie
+// goes to the accused. Closing the tribunal (time's up) goes with the votes cast.
+export function resolveTribunal(state: GameState, ctx: EffectContext, closing = false): GameState {
+  const accusation = state.pendingAction?.accusation;
+  if (state.phase !== 'tribunal' || !accusation) return state;
+
+  const votes = state.pendingAction?.votes ?? {};
+  const jury = getJury(state, ctx, accusation);
+  const guiltyVotes = jury.filter((p) => votes[p.id] === true).length;
+  const undecided = jury.filter((p) => votes[p.id] === undefined).length;
+
+  const guilty = guiltyVotes * 2 > jury.length;
+  if (!guilty && !closing && (guiltyVotes + undecided) * 2 > jury.length) return state;
+
+  // A false accusation costs the accuser what it would have cost the accused
+  const penalized = guilty ? accusation.offenderId : accusation.accuserId;
+
+  ctx.record({ kind: 'verdict', accusation, guilty, votes });
+  ctx.emit('verdict_reached', { accusation, guilty, votes });
+
+  // Nobody could play while the tribunal sat
+  return {
+    ...ctx.forceDrawCards(state, penalized, accusation.penalty),
+    phase: 'playing',
+    pendingAction: null,
+    ...ctx.startTurnClock(),
+  };
+}
+
+// Not set off by a card: anyone can report a player for breaking an
+// honor-system custom rule (or speaking in silence mode), and the rest of the
+// table decides. Two players short of a jury have nobody to report to.
+export const tribunal: CardEffectModule = {
+  id: 'tribunal',
+  triggers: () => false,
+  apply: (state) => state,
+
+  phases: [
+    {
+      phase: 'tribunal',
+      pendingAction: 'tribunal',
+      holdsTurn: { code: 'tribunal_pending', reason: 'Waiting on the tribunal' },
+      decide(state, ai) {
+        const accusation = state.pendingAction?.accusation;
+        if (!accusation || !isOnJury(accusation, ai.id) || state.pendingAction?.votes?.[ai.id] !== undefined) {
+          return null;
+        }
+
+        // Nobody saw a thing. Hard sides against whoever is closer to winning.
+        let guilty = ai.random() < 0.5;
+        if (ai.difficulty === 'hard') {
+          const cardsHeld = (id: string) => state.players.find((p) => p.id === id)?.hand.length ?? 0;
+          guilty = cardsHeld(accusation.offenderId) <= cardsHeld(accusation.accuserId);
+        }
+
+        return {
+          action: { type: 'vote_verdict', playerId: ai.id, vote: guilty },
+          delay: ai.thinkingDelay(),
+        };
+      },
+    },
+  ],
+
+  actions: {
+    report_violation: {
+      validate(state, action, ctx) {
+        if (state.phase === 'tribunal') {
+          return { valid: false, code: 'tribunal_pending', reason: 'Someone is already on trial' };
+        }
+        if (state.phase !== 'playing') {
+          return { valid: false, code: 'invalid_accusation', reason: 'Reports wait until play resumes' };
+        }
+
+        const offender = state.players.find((p) => p.id === action.targetPlayerId);
+        if (!offender || offender.id === action.playerId || isPlayerOut(state, offender.id)) {
+          return { valid: false, code: 'invalid_accusation', reason: 'Cannot report that player' };
+        }
+
+        const rule = findReportableRule(state, ctx.config, action.ruleId);
+        if ('error' in rule) {
+          return { valid: false, code: 'invalid_accusation', reason: rule.error };
+        }
+
+        if (getJury(state, ctx, { accuserId: action.playerId, offenderId: offender.id }).length === 0) {
+          return { valid: false, code: 'invalid_accusation', reason: 'Nobody is left to judge it' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        const rule = findReportableRule(state, ctx.config, action.ruleId);
+        if ('error' in rule || !action.ruleId || !action.targetPlayerId) return state;
+
+        const accusation: Accusation = {
+          accuserId: action.playerId,
+          offenderId: action.targetPlayerId,
+          ruleId: action.ruleId,
+          ruleText: rule.text,
+          penalty: rule.penalty,
+        };
+        const deadline = Date.now() + TRIBUNAL_WINDOW_MS;
+        ctx.emit('violation_reported', { accusation, deadline });
+
+        return resolveTribunal(
+          {
+            ...state,
+            phase: 'tribunal',
+            pendingAction: {
+              type: 'tribunal',
+              accusation,
+              votes: {},
+              deadline,
+            },
+          },
+          ctx
+        );
+      },
+    },
+
+    vote_verdict: {
+      validate(state, action) {
+        const accusation = state.pendingAction?.accusation;
+        if (state.phase !== 'tribunal' || !accusation || !isOnJury(accusation, action.playerId)) {
+          return { valid: false, code: 'not_on_jury', reason: 'You are not on the jury' };
+        }
+        if (state.pendingAction?.votes?.[action.playerId] !== undefined) {
+          return { valid: false, code: 'not_on_jury', reason: 'Already voted' };
+        }
+        return { valid: true };
+      },
+
+      apply(state, action, ctx) {
+        const votes = { ...state.pendingAction?.votes, [action.playerId]: action.vote === true };
+        return resolveTribunal({ ...state, pendingAction: { ...state.pendingAction!, votes } }, ctx);
+      },
+    },
+  },
+};
@@ -0,0 +1,17 @@
+// Rules shared by the browser client and the Socket.IO server.
+// Anything that decides whether a move is legal or what it does belongs here.
+export * from './types/game.types';
+export * from './types/protocol.types';
+export * from './engine/CardDeck';
+export * from './engine/EventBus';
+export * from './engine/Random';
+export * from './engine/constants';
+export * from './engine/GameEngine';
+export * from './engine/GameReplay';
+export * from './engine/Match';
+export * from './engine/effects/CardEffectModule';
+export * from './engine/effects/CardEffectRegistry';
+export * from './engine/effects/EnforcedRules';
+export * from './engine/effects/Tribunal';
+export * from './sync/StatePatch';
+export * from './ai/AIPlayer';
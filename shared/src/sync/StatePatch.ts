@@ -0,0 +1,102 @@
+// Structural diffs between two JSON-like values (game states), so online
+// clients can be sent what changed instead of the whole state every action.
+
+export type PatchPath = (string | number)[];
+
+export type PatchOp =
+  | { op: 'set'; path: PatchPath; value: unknown }
+  | { op: 'delete'; path: PatchPath }
+  | { op: 'append'; path: PatchPath; items: unknown[] } // e.g. a card landing on the discard pile
+  | { op: 'truncate'; path: PatchPath; length: number };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Operations that turn `prev` into `next`. Absent and undefined keys are the
+// same thing, matching what survives a trip through JSON.
+export function diffState<T>(prev: T, next: T): PatchOp[] {
+  const ops: PatchOp[] = [];
+  diffValue(prev, next, [], ops);
+  return ops;
+}
+
+function diffValue(prev: unknown, next: unknown, path: PatchPath, ops: PatchOp[]): void {
+  if (Object.is(prev, next)) return;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    diffArray(prev, next, path, ops);
+  } else if (isObject(prev) && isObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (prev[key] !== undefined && next[key] === undefined) {
+        ops.push({ op: 'delete', path: [...path, key] });
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) continue;
+      if (prev[key] === undefined) {
+        ops.push({ op: 'set', path: [...path, key], value: next[key] });
+      } else {
+        diffValue(prev[key], next[key], [...path, key], ops);
+      }
+    }
+  } else {
+    ops.push({ op: 'set', path, value: next });
+  }
+}
+
+function diffArray(prev: unknown[], next: unknown[], path: PatchPath, ops: PatchOp[]): void {
+  const shared = Math.min(prev.length, next.length);
+  const elementOps: PatchOp[] = [];
+  for (let i = 0; i < shared; i++) {
+    diffValue(prev[i], next[i], [...path, i], elementOps);
+  }
+
+  // Mostly different (a reshuffle, a new hand) - cheaper to resend it whole
+  if (elementOps.length > Math.max(1, next.length / 2)) {
+    ops.push({ op: 'set', path, value: next });
+    return;
+  }
+
+  ops.push(...elementOps);
+  if (next.length > prev.length) {
+    ops.push({ op: 'append', path, items: next.slice(prev.length) });
+  } else if (next.length < prev.length) {
+    ops.push({ op: 'truncate', path, length: next.length });
+  }
+}
+
+// Apply operations from diffState without mutating `base`; untouched
+// branches are shared with it so unchanged parts keep their identity
+export function applyPatch<T>(base: T, ops: PatchOp[]): T {
+  return ops.reduce<unknown>((value, op) => applyOp(value, op, 0), base) as T;
+}
+
+function applyOp(target: unknown, op: PatchOp, depth: number): unknown {
+  if (depth === op.path.length) {
+    switch (op.op) {
+      case 'set':
+        return op.value;
+      case 'append':
+        return [...(target as unknown[]), ...op.items];
+      case 'truncate':
+        return (target as unknown[]).slice(0, op.length);
+      case 'delete':
+        return undefined;
+    }
+  }
+
+  const key = op.path[depth];
+  const copy: JsonObject | unknown[] = Array.isArray(target) ? [...target] : { ...(target as JsonObject) };
+
+  if (op.op === 'delete' && depth === op.path.length - 1) {
+    delete (copy as JsonObject)[key];
+    return copy;
+  }
+
+  const child = (copy as JsonObject)[key];
+  (copy as JsonObject)[key] = applyOp(child, op, depth + 1);
+  return copy;
+}
@@ -0,0 +1,395 @@
+// Card types
+export type CardColor = 'red' | 'yellow' | 'green' | 'blue' | 'wild';
+
+export type NumberValue = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+export type ActionValue = 'skip' | 'reverse' | 'draw2';
+export type WildValue = 'wild' | 'wild_draw4';
+export type CardValue = NumberValue | ActionValue | WildValue;
+
+export interface Card {
+  id: string;
+  color: CardColor;
+  value: CardValue;
+}
+
+// Player types
+export type PlayerType = 'human' | 'ai';
+
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+
+// What an online room does with the seat of a player who drops mid-game
+export type DisconnectPolicy = 'skip' | 'bot';
+
+export interface Player {
+  id: string;
+  name: string;
+  hand: Card[];
+  hasCalledUno: boolean;
+  isConnected: boolean;
+  isBotControlled: boolean; // A server-side AI is playing this seat until its owner reconnects
+  isEliminated: boolean;    // Knocked out of an elimination match - dealt no cards, never takes a turn
+  type: PlayerType;
+  avatar?: string;
+}
+
+// Game phase types
+export type GamePhase =
+  | 'waiting'
+  | 'playing'
+  | 'color_selection'
+  | 'slap_race'
+  | 'custom_rule_creation'
+  | 'card_request'      // Someone is being asked for a card
+  | 'offering_card'     // Requester deciding to accept/decline
+  | 'draw4_challenge'   // Victim of a Wild Draw Four deciding whether to challenge it
+  | 'hand_swap'         // Player who set off a hand swap picking who to swap with
+  | 'rule_vote'         // Everyone else voting on a new or repealed custom rule
+  | 'tribunal'          // The rest of the table judging a reported rule violation
+  | 'game_over';
+
+// Pending action types
+export type PendingActionType =
+  | 'draw_cards'
+  | 'slap'
+  | 'select_color'
+  | 'create_rule'
+  | 'card_request'      // Someone is asking for a card
+  | 'offer_decision'    // Requester deciding to accept/decline
+  | 'draw4_challenge'   // Victim deciding whether to challenge a Wild Draw Four
+  | 'swap_hands'        // Player picking who to swap hands with
+  | 'rule_vote'         // Votes on a custom rule proposal
+  | 'tribunal';         // Guilty/not guilty votes on an accusation
+
+export interface SlapRecord {
+  playerId: string;
+  timestamp: number;
+}
+
+// Outcome of a slap race as reported to online players
+export interface SlapResult {
+  loserId: string;
+  reactions: { playerId: string; reactionMs: number | null }[];  // null = didn't slap in time
+}
+
+export interface PendingAction {
+  type: PendingActionType;
+  targetPlayer?: string;   // Player being asked for a card (the giver)
+  requesterId?: string;    // Player who asked for a card
+  amount?: number;
+  deadline?: number;
+  offeredCardId?: string;
+  offererId?: string;
+  slaps?: SlapRecord[];    // Slaps received so far during a slap race
+  offenderId?: string;     // Who played the Wild Draw Four being challenged
+  color?: CardColor;       // Color in play when it went down
+  illegal?: boolean;       // Whether they held a card of that color - only the engine may see this
+  proposal?: RuleProposal; // Custom rule being voted on
+  accusation?: Accusation; // Violation being judged
+  votes?: Record<string, boolean>;  // Votes cast so far, by player id (true = for, or guilty)
+}
+
+// Custom rule types
+export type CustomRuleType = 'behavioral' | 'speech' | 'penalty' | 'action';
+
+export interface CustomRule {
+  id: string;
+  text: string;
+  type: CustomRuleType;
+  createdBy: string;
+  createdAt: number;
+  effect?: RuleEffect;  // Set for rules the engine enforces; the rest run on the honor system
+  roundsLeft: number;   // Rounds of the match it stays in force, counting this one (see Match)
+  penalty?: number;     // Cards drawn for breaking it; 1 when omitted
+}
+
+// A custom rule put to the table's vote (with the ruleVote rule)
+export interface RuleProposal {
+  kind: 'add' | 'repeal';
+  rule: CustomRule;     // The new rule, or the one to be repealed
+  proposedBy: string;   // Doesn't get a vote
+}
+
+// A player reported for breaking a custom rule (or speaking in silence mode)
+export interface Accusation {
+  accuserId: string;
+  offenderId: string;
+  ruleId: string;       // The custom rule's id, or SILENCE_RULE_ID
+  ruleText: string;
+  penalty: number;      // Drawn by the offender if found guilty, or else by the accuser
+}
+
+// Which cards an enforced rule applies to; a field left out matches any card
+export interface CardMatcher {
+  color?: Exclude<CardColor, 'wild'>;
+  value?: CardValue;
+}
+
+export type RuleEffect =
+  | { kind: 'others_draw'; cards: CardMatcher; count: number } // Playing one makes everyone else draw
+  | { kind: 'also_reverse'; cards: CardMatcher }               // Playing one also turns play around
+  | { kind: 'also_skip'; cards: CardMatcher }                  // Playing one also skips the next player
+  | { kind: 'play_on_anything'; cards: CardMatcher };          // They can go on any card, like a wild
+
+// Game state
+export interface GameState {
+  id: string;
+  phase: GamePhase;
+  players: Player[];
+  currentPlayerIndex: number;
+  direction: 1 | -1;
+  drawPile: Card[];
+  discardPile: Card[];
+  pendingAction: PendingAction | null;
+  customRules: CustomRule[];
+  silenceMode: boolean;
+  stackedDrawAmount: number;
+  stackedSkipCount: number;     // Skips waiting on the player on turn - pass them on with a skip or lose that many turns around the table
+  drawnCardId: string | null;   // Card the player on turn just drew and may still play (playAfterDraw rule)
+  turnStartTime: number;
+  turnDeadline: number | null;  // When the current player's clock runs out (null = untimed turns)
+  winner: string | null;        // First player out of cards
+  loser: string | null;         // Reverse mode - the last player left holding cards
+  finishOrder: string[];        // Players who have emptied their hand, in order (reverse mode plays on after the first)
+  lastAction: GameAction | null;
+  selectedWildColor: CardColor | null;  // Color chosen for the wild on top of the discard pile
+}
+
+// Game actions
+export type GameActionType =
+  | 'play_card'
+  | 'draw_card'
+  | 'call_uno'
+  | 'catch_uno'
+  | 'slap'
+  | 'create_custom_rule'
+  | 'request_card'    // Player asks another player for a card
+  | 'decline_request' // Asked player refuses to give a card
+  | 'offer_card'      // Player offers a card in response to request
+  | 'accept_offer'
+  | 'decline_offer'
+  | 'report_violation'  // Accuse targetPlayerId of breaking the rule ruleId
+  | 'select_color'
+  | 'pass_turn'
+  | 'jump_in'
+  | 'accept_draw4'     // Take the Wild Draw Four
+  | 'challenge_draw4'  // Call it out as played while holding the color in play
+  | 'swap_hands'       // Trade hands with targetPlayerId
+  | 'repeal_custom_rule'  // Scrap the rule ruleId instead of making a new one
+  | 'vote_rule'        // Vote for (vote = true) or against the rule proposal
+  | 'vote_verdict';    // Vote guilty (vote = true) or not guilty on an accusation
+
+export interface GameAction {
+  type: GameActionType;
+  playerId: string;
+  cardId?: string;
+  targetPlayerId?: string;
+  wildColor?: CardColor;
+  customRule?: Omit<CustomRule, 'id' | 'createdAt' | 'roundsLeft'>;
+  ruleId?: string;
+  vote?: boolean;
+  timestamp?: number;
+}
+
+// Game events
+export type GameEventType =
+  | 'state_changed'
+  | 'card_played'
+  | 'card_drawn'
+  | 'uno_called'
+  | 'uno_caught'
+  | 'slap_race_started'
+  | 'slap_race_ended'
+  | 'silence_toggled'
+  | 'violation_reported'
+  | 'verdict_reached'
+  | 'custom_rule_created'
+  | 'card_requested'
+  | 'request_declined'
+  | 'card_offered'
+  | 'offer_responded'
+  | 'turn_changed'
+  | 'turn_timed_out'
+  | 'player_finished'
+  | 'game_over'
+  | 'action_rejected'
+  | 'jump_in'
+  | 'draw4_challenged'
+  | 'hands_swapped'
+  | 'hands_rotated'
+  | 'custom_rule_enforced'
+  | 'custom_rule_repealed'
+  | 'rule_vote_started'
+  | 'rule_vote_ended';
+
+export interface GameEvent {
+  type: GameEventType;
+  payload: unknown;
+  timestamp: number;
+}
+
+// Game configuration
+export interface GameConfig {
+  playerCount: number;
+  playerNames: string[];
+  playerIds?: string[];  // Fixed ids (e.g. online seats); generated when omitted
+  enabledRules: {
+    silence: boolean;
+    customRule: boolean;
+    stackDraw: boolean;
+    stackSkip: boolean;
+    slap: boolean;
+    jumpIn: boolean;
+    unoCall: boolean;
+    offerCard: boolean;
+    playAfterDraw: boolean;      // A playable card you draw can be played straight away
+    drawUntilPlayable: boolean;  // Keep drawing until a playable card turns up
+    passAfterDraws: boolean;     // ...but give up and pass after maxDrawsPerTurn cards
+    challengeDraw4: boolean;     // A Wild Draw Four can be challenged by the player it hits
+    ruleVote: boolean;           // Custom rules (and repeals) need a majority of the other players
+    ruleRepeal: boolean;         // A custom rule card can scrap an existing rule instead
+  };
+  aiDifficulty?: AIDifficulty;
+  seed?: number;  // Drives shuffles and AI choices; random when omitted
+  takebacks?: TakebackLimit;  // Local games only - see gameStore.undo
+  turnTimeLimit?: number;  // Seconds per turn before an automatic draw; untimed when omitted
+  stackDrawMode?: DrawStackMode;  // Which draw cards stack on which (with the stackDraw rule); 'same' when omitted
+  cardEffects?: CardEffectMap;  // What each number card sets off; DEFAULT_CARD_EFFECTS when omitted
+  targetScore?: number;  // Play rounds until someone reaches this score (see Match); a single game when omitted
+  matchMode?: MatchMode;  // 'standard' when omitted
+  dealerIndex?: number;  // Seat that dealt - the next seat plays first; the last seat when omitted
+  eliminatedIds?: string[];  // Seats knocked out earlier in an elimination match
+  ruleLifetime?: number;  // Rounds a custom rule lasts, counting the one it's made in; 1 when omitted
+  maxDrawsPerTurn?: number;  // Cards drawn before giving up (drawUntilPlayable with passAfterDraws); MAX_DRAWS_PER_TURN when omitted
+  customRules?: CustomRule[];  // Rules still in force from earlier rounds of the match
+}
+
+// Which draw cards may be stacked on a pending +2/+4
+export type DrawStackMode =
+  | 'same'            // +2 on +2, +4 on +4
+  | 'draw2_on_draw4'  // Also a +2 on a +4
+  | 'draw4_on_draw2'  // Also a +4 on a +2, never the other way
+  | 'any';            // Any draw card on any other
+
+// What playing a number card sets off. Silence, custom rules and slaps
+// also need their rule switched on in enabledRules.
+export type CardEffect =
+  | 'none'
+  | 'silence'       // Toggles silence mode
+  | 'custom_rule'   // The player makes up a new rule
+  | 'slap'          // Slap race - the slowest draws a card
+  | 'swap_hands'    // The player swaps hands with someone of their choice (Seven-O's 7)
+  | 'rotate_hands'; // Every hand passes on one seat in the direction of play (Seven-O's 0)
+
+// Number card value -> effect; numbers left out have none
+export type CardEffectMap = Partial<Record<number, CardEffect>>;
+
+// How a match is won
+export type MatchMode =
+  | 'standard'      // First out wins the round and scores everyone else's cards; first to the target wins
+  | 'elimination'   // Cards held count against you; the highest total is knocked out each round until one remains
+  | 'reverse';      // Rounds play on until one player is left holding cards; their cards count against them
+
+// Multi-round matches
+export interface RoundResult {
+  round: number;
+  winnerId: string;                    // First out of cards
+  loserId: string | null;              // Reverse mode - left holding cards
+  eliminatedId: string | null;         // Elimination mode - knocked out after this round
+  points: number;                      // Standard mode - scored by the winner from everyone else's hands
+  handPoints: Record<string, number>;  // What each player was left holding (penalty points in the other modes)
+}
+
+export interface MatchState {
+  mode: MatchMode;
+  targetScore: number | null;  // null = a single game (elimination ignores it)
+  playerIds: string[];
+  eliminatedIds: string[];
+  round: number;               // The round being played, or just finished
+  dealerIndex: number;
+  scores: Record<string, number>;
+  rounds: RoundResult[];
+  winnerId: string | null;     // Set once the match is decided
+  customRules: CustomRule[];   // Rules carried into the next round
+}
+
+// How far back players may undo in local games
+export type TakebackLimit =
+  | 'off'
+  | 'own_last_move'   // Only your own last move, until someone else acts
+  | 'unlimited';
+
+// Game log (for replays and bug reports)
+export type GameLogEntry =
+  | { kind: 'action'; action: GameAction }
+  | { kind: 'slap_resolved'; slaps: SlapRecord[] }
+  | { kind: 'vote_closed' }  // The rule vote or tribunal ran out of time
+  | { kind: 'turn_skipped' }  // The host passed an absent player's turn
+  | { kind: 'verdict'; accusation: Accusation; guilty: boolean; votes: Record<string, boolean> }  // Informational - what a tribunal decided
+  | { kind: 'reshuffle' };  // Informational - replays reshuffle on their own
+
+export interface GameLog {
+  version: number;
+  config: GameConfig;       // Includes the seed the game was dealt with
+  entries: GameLogEntry[];
+}
+
+// Everything needed to put an engine back to an earlier point (undo)
+export interface EngineSnapshot {
+  state: GameState;
+  log: GameLogEntry[];
+  randomState: number;
+}
+
+// Validation result
+// Why an action was refused - the engine's checks plus the server's own (seat, game state)
+export type RejectionCode =
+  | 'player_not_found'
+  | 'no_card_specified'
+  | 'card_not_in_hand'
+  | 'not_your_turn'
+  | 'card_not_playable'
+  | 'wild_color_required'
+  | 'cannot_call_uno'
+  | 'target_not_found'
+  | 'cannot_catch'
+  | 'no_slap_race'
+  | 'not_selecting_color'
+  | 'not_in_game'
+  | 'not_your_seat'
+  | 'spectating'
+  | 'player_out'
+  | 'already_drew'
+  | 'cannot_pass'
+  | 'cannot_request'
+  | 'offer_card_disabled'
+  | 'target_has_no_cards'
+  | 'jump_in_disabled'
+  | 'cannot_jump_in'
+  | 'action_failed'
+  | 'no_card_request'
+  | 'no_offer'
+  | 'no_challenge'
+  | 'challenge_pending'
+  | 'swap_pending'
+  | 'not_swapping'
+  | 'invalid_swap_target'
+  | 'invalid_rule'
+  | 'rule_not_found'
+  | 'repeal_disabled'
+  | 'not_making_rule'
+  | 'vote_pending'
+  | 'not_voting'
+  | 'invalid_accusation'
+  | 'tribunal_pending'
+  | 'not_on_jury'
+  | 'game_over'
+  | 'invalid_payload';
+
+export type ValidationResult =
+  | { valid: true }
+  | { valid: false; code: RejectionCode; reason: string };
+
+// Acknowledgement the server sends back for every game action
+export type ActionAck =
+  | { ok: true }
+  | { ok: false; code: RejectionCode; reason: string };
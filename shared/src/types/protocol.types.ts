@@ -0,0 +1,153 @@
+// Socket.IO contract between the browser client and the server.
+// Bump PROTOCOL_VERSION whenever an event or payload changes shape.
+import type {
+  GameState,
+  GameAction,
+  GameConfig,
+  AIDifficulty,
+  DisconnectPolicy,
+  DrawStackMode,
+  CardEffectMap,
+  MatchMode,
+  MatchState,
+  SlapResult,
+  ActionAck,
+} from './game.types';
+import type { PatchOp } from '../sync/StatePatch';
+
+export const PROTOCOL_VERSION = 16;
+
+// Sent in the Socket.IO handshake (`auth`), checked before the connection is accepted
+export interface HandshakeAuth {
+  protocolVersion: number;
+  clientId: string; // Random per-tab id, lets a host ban a browser session rather than just a name
+}
+
+// Attached to the connect_error a stale client receives
+export interface ProtocolMismatchDetails {
+  code: 'protocol_mismatch';
+  serverVersion: number;
+  clientVersion: number | null;
+}
+
+// Lobby types
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+  ready: boolean;
+  connected?: boolean;
+  isHost?: boolean;
+}
+
+export interface Spectator {
+  id: string;
+  name: string;
+}
+
+export interface RoomConfig {
+  enabledRules: GameConfig['enabledRules'];
+  disconnectPolicy: DisconnectPolicy;
+  botDifficulty: AIDifficulty;
+  turnTimeLimit: number; // Seconds per turn, 0 for untimed
+  stackDrawMode: DrawStackMode;
+  cardEffects: CardEffectMap;
+  targetScore: number; // Points that win the match, 0 for a single game
+  matchMode: MatchMode;
+  ruleLifetime: number; // Rounds a custom rule lasts
+  maxDrawsPerTurn: number; // Cards drawn before giving up, with passAfterDraws
+}
+
+// Host-chosen room options besides the spicy rules
+export type RoomSettings = Omit<RoomConfig, 'enabledRules'>;
+
+// Acknowledgements
+export type RequestFailure = { success: false; error: string };
+
+export type CreateRoomResponse =
+  | { success: true; code: string; playerId: string; reconnectToken: string; isHost: boolean; config: RoomConfig }
+  | RequestFailure;
+
+export type JoinRoomResponse = CreateRoomResponse;
+
+export interface RejoinResult {
+  playerId: string;
+  isHost: boolean;
+  players: LobbyPlayer[];
+  config: RoomConfig;
+  locked: boolean;
+  state: GameState | null;
+  match: MatchState | null;
+}
+
+export type RejoinRoomResponse = ({ success: true; code: string } & RejoinResult) | RequestFailure;
+
+// Spectators see every hand face down and can't send game actions
+export interface SpectateResult {
+  spectatorId: string;
+  players: LobbyPlayer[];
+  config: RoomConfig;
+  state: GameState | null;
+  match: MatchState | null;
+}
+
+export type SpectateRoomResponse = ({ success: true; code: string } & SpectateResult) | RequestFailure;
+
+// Game state sync. Every state message to a socket carries the next `seq`;
+// patches apply on top of the previous message, snapshots replace everything.
+// Deadlines in the state are on the server's clock; `serverTime` (its clock
+// when sending) lets the client count them down on its own.
+export interface StateSnapshot {
+  seq: number;
+  state: GameState;
+  playerId: string;
+  serverTime: number;
+}
+
+export interface StatePatch {
+  seq: number;
+  ops: PatchOp[];
+  serverTime: number;
+}
+
+// Events the client sends
+export interface ClientToServerEvents {
+  create_room: (data: { playerName: string }, ack: (response: CreateRoomResponse) => void) => void;
+  join_room: (data: { code: string; playerName: string }, ack: (response: JoinRoomResponse) => void) => void;
+  rejoin_room: (
+    data: { code: string; playerId: string; reconnectToken: string },
+    ack: (response: RejoinRoomResponse) => void
+  ) => void;
+  spectate_room: (data: { code: string; playerName: string }, ack: (response: SpectateRoomResponse) => void) => void;
+  toggle_ready: (data: { playerId: string }) => void;
+  update_rules: (data: { rules: RoomConfig['enabledRules'] }) => void;
+  update_settings: (data: Partial<RoomSettings>) => void;
+  // Host moderation
+  kick_player: (data: { playerId: string; ban: boolean }) => void;
+  transfer_host: (data: { playerId: string }) => void;
+  set_room_locked: (data: { locked: boolean }) => void;
+  start_game: () => void;
+  next_round: () => void; // Host deals the next round of a match
+  game_action: (action: GameAction, ack: (response: ActionAck) => void) => void;
+  request_resync: () => void; // Missed a patch - send a fresh snapshot
+  leave_room: () => void;
+}
+
+// Events the server sends
+export interface ServerToClientEvents {
+  player_joined: (data: { players: LobbyPlayer[] }) => void;
+  player_left: (data: { players: LobbyPlayer[] }) => void;
+  player_ready_changed: (data: { players: LobbyPlayer[] }) => void;
+  spectators_changed: (data: { spectators: Spectator[] }) => void;
+  rules_updated: (data: { rules: RoomConfig['enabledRules'] }) => void;
+  settings_updated: (data: { settings: RoomSettings }) => void;
+  host_changed: (data: { hostId: string; players: LobbyPlayer[] }) => void;
+  room_lock_changed: (data: { locked: boolean }) => void;
+  kicked: (data: { banned: boolean }) => void;
+  game_started: (data: StateSnapshot) => void;
+  game_state_snapshot: (data: StateSnapshot) => void;
+  game_state_patch: (data: StatePatch) => void;
+  match_updated: (data: { match: MatchState }) => void;
+  slap_result: (result: SlapResult) => void;
+  latency_ping: (ack: () => void) => void;
+  error: (data: { message: string }) => void;
+}